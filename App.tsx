@@ -1,64 +1,152 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Header } from './components/Header';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Header, AppView } from './components/Header';
 import { ImageUploader } from './components/ImageUploader';
 import { WatermarkControls } from './components/WatermarkControls';
-import { WatermarkSettings, ProcessedImage } from './types';
-import { applyWatermarkToImage, readFileAsDataURL } from './utils/watermark';
-import { Download, Trash2, RefreshCw, X, AlertTriangle, AlertCircle, Info } from 'lucide-react';
+import { WatermarkPreview } from './components/WatermarkPreview';
+import { BatchProgressPanel } from './components/BatchProgressPanel';
+import { AnchorIcon } from './components/AnchorIcon';
+import { VerifyPanel } from './components/VerifyPanel';
+import { ImageOverridesPanel } from './components/ImageOverridesPanel';
+import { LogoProcessingPanel } from './components/LogoProcessingPanel';
+import { WatermarkSettings, WatermarkLayer, WatermarkResult, ProcessedImage, LogoAsset, BatchProgress, AnchorPosition, LogoVariant, ImageOverrides, LayerOverride, LogoProcessing } from './types';
+import { applyWatermarkToImage, isLayerDrawable, prepareLayerMarks, getAutoAdjustments } from './utils/watermark';
+import { createRenderPool, RenderPool, BatchCancelledError } from './utils/renderPool';
+import { loadSavedSettings, saveSettings, createLayer, linkWaitingLogos, getSettingsChangeKey, getEffectiveSettings, hasSettingOverrides, NEUTRAL_ENHANCEMENTS } from './utils/settings';
+import { useHistoryState } from './utils/history';
+import { getOutputFileName, createUniqueNamer, triggerDownload, formatFileSize } from './utils/download';
+import { createZipWriter, openZipSink, ZipWriter } from './utils/zip';
+import { DEFAULT_LOGO_PROCESSING, prepareUploadedLogo, processLogo, createLogoPreviewUrl } from './utils/logoProcessing';
+import { saveSession, loadSession, clearSession, getSessionUsage, RestoredSession } from './utils/session';
+import { Download, Trash2, RefreshCw, X, AlertTriangle, AlertCircle, Info, Contrast, Undo2, Redo2, SlidersHorizontal, Check, History, HardDrive, SplitSquareHorizontal, ZoomIn, Wand2 } from 'lucide-react';
 
 const App: React.FC = () => {
+  const [view, setView] = useState<AppView>('watermark');
   const [images, setImages] = useState<ProcessedImage[]>([]);
-  const [logo, setLogo] = useState<File | null>(null);
-  const [logoPreview, setLogoPreview] = useState<string | null>(null);
+  const [logos, setLogos] = useState<LogoAsset[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const poolRef = useRef<RenderPool | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [batchErrorResults, setBatchErrorResults] = useState<{ total: number; success: number; failures: { id: string; name: string; error: string }[] } | null>(null);
   
-  // Controls settings with persistence
-  const [settings, setSettings] = useState<WatermarkSettings>(() => {
-    try {
-        const saved = localStorage.getItem('maasai-watermark-settings');
-        if (saved) {
-            return JSON.parse(saved);
-        }
-    } catch (e) {
-        console.error("Failed to load settings", e);
-    }
-    return {
-        opacity: 80,
-        scale: 20,
-        position: 'bottom-right',
-        margin: 3,
-        outputFormat: 'image/jpeg',
-        shadow: false,
-        brightness: 100,
-        contrast: 100,
-        saturation: 100,
+  // Controls settings with persistence and an undo/redo history
+  const { state: settings, setState: setSettings, replaceState: replaceSettings, resetState: resetSettings, undo, redo, canUndo, canRedo } =
+    useHistoryState<WatermarkSettings>(loadSavedSettings, getSettingsChangeKey);
+
+  // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own native undo while focused.
+  useEffect(() => {
+    if (view !== 'watermark') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLTextAreaElement || target?.isContentEditable
+        || (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'color', 'button'].includes(target.type));
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !e.metaKey) {
+        e.preventDefault();
+        redo();
+      }
     };
-  });
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [view, undo, redo]);
+
+  // Only layers with something to draw count as a watermark, or a frame around the photo
+  const hasWatermark = settings.layers.some(layer => isLayerDrawable(layer, logos)) || settings.frame.enabled;
+
+  // Name of the selected preset, for the {preset} filename token
+  const [presetName, setPresetName] = useState<string | null>(null);
 
   const handleSaveSettings = () => {
-      try {
-          localStorage.setItem('maasai-watermark-settings', JSON.stringify(settings));
-      } catch (e) {
-          console.error("Failed to save settings", e);
-          // Fallback if local storage is full or disabled, though rare in modern context
-      }
+      saveSettings(settings);
+  };
+
+  // Layer being edited, shared by the controls and the draggable preview
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+
+  const updateLayer = (id: string, changes: Partial<WatermarkLayer>) => {
+      setSettings(prev => ({
+          ...prev,
+          layers: prev.layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer),
+      }));
   };
 
   // Preview Image ID (to show a large preview of one processed image)
   const [activePreviewId, setActivePreviewId] = useState<string | null>(null);
-  const [previewResult, setPreviewResult] = useState<string | null>(null);
+  const [previewResult, setPreviewResult] = useState<WatermarkResult | null>(null);
   const [previewError, setPreviewError] = useState<string | null>(null);
 
+  // Preview-only view options: before/after split, 100% zoom, enhancements on/off
+  const [compareMode, setCompareMode] = useState(false);
+  const [actualSize, setActualSize] = useState(false);
+  const [previewEnhancements, setPreviewEnhancements] = useState(true);
+  const [beforeResult, setBeforeResult] = useState<WatermarkResult | null>(null);
+
+  // Saved session: checked once on load, then mirrored after every change.
+  // Nothing is saved while the resume prompt is open, so an untouched previous
+  // session is not overwritten by the empty new one.
+  const [sessionState, setSessionState] = useState<'loading' | 'prompt' | 'ready' | 'unavailable'>('loading');
+  const [restorableSession, setRestorableSession] = useState<RestoredSession | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<{ used: number; available: number | null } | null>(null);
+
+  useEffect(() => {
+    loadSession().then(
+      (session) => {
+        setRestorableSession(session);
+        setSessionState(session ? 'prompt' : 'ready');
+      },
+      (e) => {
+        console.error('Session storage unavailable', e);
+        setSessionState('unavailable');
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    if (sessionState !== 'ready') return;
+    const timer = setTimeout(() => {
+      saveSession({ settings, images, logos, activePreviewId })
+        .then(() => getSessionUsage({ images, logos }))
+        .then(setSessionUsage)
+        .catch((e) => console.error('Could not save the session', e));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionState, settings, images, logos, activePreviewId]);
+
+  const resumeSession = () => {
+    if (!restorableSession) return;
+    resetSettings(restorableSession.settings);
+    setLogos(restorableSession.logos);
+    setImages(restorableSession.images);
+    setActivePreviewId(restorableSession.activePreviewId);
+    setRestorableSession(null);
+    setSessionState('ready');
+  };
+
+  const discardSession = () => {
+    clearSession().catch((e) => console.error('Could not clear the session', e));
+    setRestorableSession(null);
+    setSessionState('ready');
+  };
+
+  // Photos picked (Ctrl/Cmd/Shift-click) for per-image settings
+  const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(new Set());
+
   // Handle source images upload
   const handleImagesSelected = (files: File[]) => {
     const newImages: ProcessedImage[] = files.map((file) => ({
       id: crypto.randomUUID(),
       originalFile: file,
-      previewUrl: '',
       status: 'pending',
+      overrides: {},
     }));
     
     setImages((prev) => [...prev, ...newImages]);
@@ -71,17 +159,168 @@ const App: React.FC = () => {
 
   // Handle logo upload
   const handleLogoSelected = async (files: File[]) => {
-    if (files.length > 0) {
-      const file = files[0];
-      setLogo(file);
-      const url = await readFileAsDataURL(file);
-      setLogoPreview(url);
+    const newLogos: LogoAsset[] = await Promise.all(files.map(async (original) => {
+      let prepared = { file: original, processing: { ...DEFAULT_LOGO_PROCESSING } };
+      try {
+        prepared = await prepareUploadedLogo(original);
+      } catch (e) {
+        // Unreadable logos are reported when the watermark is prepared
+        console.error(e);
+      }
+      return { id: crypto.randomUUID(), ...prepared, original, previewUrl: await createLogoPreviewUrl(prepared.file, prepared.processing) };
+    }));
+    if (newLogos.length === 0) return;
+
+    setLogos(prev => [...prev, ...newLogos]);
+
+    // Hand the new logos to logo layers that are still waiting for one
+    // (e.g. layers restored from saved settings), in order
+    // Not an edit of its own, so it isn't an undo step either
+    const knownIds = new Set(logos.map(logo => logo.id));
+    replaceSettings(prev => {
+      // Start a logo layer if the composition has none yet
+      if (!prev.layers.some(layer => layer.type === 'logo')) {
+        return { ...prev, layers: [createLayer('logo', newLogos[0].id), ...prev.layers] };
+      }
+
+      return { ...prev, layers: linkWaitingLogos(prev.layers, newLogos, knownIds) };
+    });
+  };
+
+  // Logo whose clean-up options are open in the logo card
+  const [editingLogoId, setEditingLogoId] = useState<string | null>(null);
+  // Latest processing run per logo, so a slow run can't overwrite a newer one
+  const logoRunsRef = useRef(new Map<string, number>());
+
+  const updateLogoProcessing = async (id: string, changes: Partial<LogoProcessing>) => {
+    const logo = logos.find(l => l.id === id);
+    if (!logo) return;
+    const processing = { ...logo.processing, ...changes };
+    setLogos(prev => prev.map(l => l.id === id ? { ...l, processing } : l));
+
+    const run = (logoRunsRef.current.get(id) ?? 0) + 1;
+    logoRunsRef.current.set(id, run);
+    try {
+      const file = await processLogo(logo.original, processing);
+      const previewUrl = await createLogoPreviewUrl(file, processing);
+      if (logoRunsRef.current.get(id) !== run) return;
+      setLogos(prev => prev.map(l => l.id === id ? { ...l, file, previewUrl } : l));
+    } catch (e) {
+      console.error(e);
     }
   };
 
+  const removeLogo = (id: string) => {
+    setLogos(prev => prev.filter(logo => logo.id !== id));
+    if (editingLogoId === id) setEditingLogoId(null);
+    replaceSettings(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer => ({
+        ...layer,
+        logoId: layer.logoId === id ? null : layer.logoId,
+        lightLogoId: layer.lightLogoId === id ? null : layer.lightLogoId,
+        darkLogoId: layer.darkLogoId === id ? null : layer.darkLogoId,
+      })),
+    }));
+  };
+
+  // Applies an override change to the given photos. Finished photos need
+  // re-processing to pick it up.
+  const updateOverrides = (ids: Set<string>, update: (overrides: ImageOverrides) => ImageOverrides) => {
+    setImages(prev => prev.map(img => ids.has(img.id)
+      ? { ...img, overrides: update(img.overrides), status: 'pending', output: undefined }
+      : img));
+  };
+
+  // Each photo gets levels and white balance measured on itself
+  const [autoAdjusting, setAutoAdjusting] = useState(false);
+  const autoAdjust = async (ids: Set<string>) => {
+    setAutoAdjusting(true);
+    try {
+      for (const img of images.filter(img => ids.has(img.id))) {
+        try {
+          const values = await getAutoAdjustments(img.originalFile, getEffectiveSettings(settings, img.overrides));
+          updateOverrides(new Set([img.id]), overrides => ({ ...overrides, settings: { ...overrides.settings, ...values } }));
+        } catch (e) {
+          console.error(e);
+        }
+      }
+    } finally {
+      setAutoAdjusting(false);
+    }
+  };
+
+  // Back to the batch settings; the logo variant has its own control and stays
+  const resetOverrides = (ids: Set<string>) => {
+    updateOverrides(ids, overrides => ({ logoVariant: overrides.logoVariant }));
+  };
+
+  // Plain click previews a photo; Ctrl/Cmd-click toggles it in the selection
+  // and Shift-click selects the range from the previewed photo
+  const handleThumbnailClick = (e: React.MouseEvent, id: string) => {
+    if (e.metaKey || e.ctrlKey) {
+      setSelectedImageIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      });
+    } else if (e.shiftKey && activePreviewId) {
+      const from = images.findIndex(img => img.id === activePreviewId);
+      const to = images.findIndex(img => img.id === id);
+      const range = images.slice(Math.min(from, to), Math.max(from, to) + 1).map(img => img.id);
+      setSelectedImageIds(prev => new Set([...prev, ...range]));
+    } else {
+      setSelectedImageIds(new Set());
+    }
+    setActivePreviewId(id);
+  };
+
+  const activeImage = images.find(img => img.id === activePreviewId);
+  const previewSettings = activeImage ? getEffectiveSettings(settings, activeImage.overrides) : settings;
+  const selectedImages = images.filter(img => selectedImageIds.has(img.id));
+
+  // Dragging in the preview edits the selected photos when the previewed photo
+  // is one of them, or this photo alone when it already overrides the layer;
+  // otherwise it moves the layer for the whole batch
+  const handlePreviewLayerChange = (layerId: string, changes: Partial<WatermarkLayer>) => {
+    if (activeImage && (selectedImageIds.has(activeImage.id) || activeImage.overrides.layers?.[layerId])) {
+      const targets = selectedImageIds.has(activeImage.id) ? selectedImageIds : new Set([activeImage.id]);
+      updateOverrides(targets, overrides => ({
+        ...overrides,
+        layers: { ...overrides.layers, [layerId]: { ...overrides.layers?.[layerId], ...(changes as LayerOverride) } },
+      }));
+    } else {
+      updateLayer(layerId, changes);
+    }
+  };
+
+  const editingLogo = logos.find(logo => logo.id === editingLogoId) ?? null;
+
+  const hasAdaptiveLayer = settings.layers.some(layer => layer.visible && layer.type === 'logo' && layer.adaptive);
+
+  // Cycles an image through automatic, light, dark and original logo variants.
+  // A finished image needs re-processing to pick up the change.
+  const cycleLogoVariant = (id: string) => {
+    const order: (LogoVariant | undefined)[] = [undefined, 'light', 'dark', 'original'];
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      const logoVariant = order[(order.indexOf(img.overrides.logoVariant) + 1) % order.length];
+      return { ...img, overrides: { ...img.overrides, logoVariant }, status: 'pending', output: undefined };
+    }));
+  };
+
+  // Each preview result holds a full-size object URL; free it once the result is replaced or cleared
+  useEffect(() => () => {
+    if (previewResult) URL.revokeObjectURL(previewResult.url);
+  }, [previewResult]);
+  useEffect(() => () => {
+    if (beforeResult) URL.revokeObjectURL(beforeResult.url);
+  }, [beforeResult]);
+
   // Debounce the live preview generation
   useEffect(() => {
-    if (!activePreviewId || !logo) {
+    if (!activePreviewId || !hasWatermark) {
         setPreviewResult(null);
         setPreviewError(null);
         return;
@@ -93,44 +332,161 @@ const App: React.FC = () => {
     // If the image already has an error from batch processing, display that instead of retrying immediately
     // unless the user changes settings, which would trigger this effect again.
     
+    // A newer render (or leaving the photo) makes this one stale: its results are dropped
+    let cancelled = false;
+    const keep = (result: WatermarkResult) => {
+        if (cancelled) URL.revokeObjectURL(result.url);
+        return !cancelled;
+    };
+
     const generatePreview = async () => {
         try {
             setPreviewError(null);
-            const url = await applyWatermarkToImage(imageToPreview.originalFile, logo, settings);
-            setPreviewResult(url);
+            const effective = getEffectiveSettings(settings, imageToPreview.overrides);
+            const neutral = NEUTRAL_ENHANCEMENTS;
+            // The caption shows the number this photo will get in the batch
+            const captionContext = { index: images.indexOf(imageToPreview) + 1, total: images.length, date: new Date() };
+            const result = await applyWatermarkToImage(
+                imageToPreview.originalFile,
+                previewEnhancements ? effective : { ...effective, ...neutral },
+                logos,
+                imageToPreview.overrides,
+                captionContext
+            );
+            if (!keep(result)) return;
+            setPreviewResult(result);
+
+            // The "before" side: same size and crop, without layers, enhancements or the invisible mark.
+            // It is an extra, so a failure here only turns the comparison off.
+            if (!compareMode) {
+                setBeforeResult(null);
+                return;
+            }
+            try {
+                const before = await applyWatermarkToImage(imageToPreview.originalFile, {
+                    ...effective,
+                    ...neutral,
+                    layers: [],
+                    qualityMode: 'fixed',
+                    invisibleMark: { ...effective.invisibleMark, enabled: false },
+                }, logos, { skipWatermark: true }, captionContext);
+                if (keep(before)) setBeforeResult(before);
+            } catch (e) {
+                console.error(e);
+                if (!cancelled) setBeforeResult(null);
+            }
         } catch (e) {
             console.error(e);
+            if (cancelled) return;
             setPreviewError(e instanceof Error ? e.message : "Failed to generate preview");
             setPreviewResult(null);
         }
     };
 
     const timer = setTimeout(generatePreview, 200); // 200ms debounce
-    return () => clearTimeout(timer);
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
 
-  }, [settings, activePreviewId, logo, images]); 
+  }, [settings, activePreviewId, logos, images, hasWatermark, previewEnhancements, compareMode]); 
 
   // Execute Batch Processing
   const executeBatchProcessing = async () => {
-    if (!logo || images.length === 0) return;
+    if (!hasWatermark || images.length === 0) return;
     
     setShowConfirmModal(false);
     setBatchErrorResults(null);
+
+    // Open the archive before any processing: the save dialog needs the click that started the batch
+    let zip: ZipWriter | null = null;
+    if (settings.downloadAs === 'zip') {
+        const sink = await openZipSink(`watermarked-${new Date().toISOString().slice(0, 10)}.zip`);
+        if (!sink) return; // Save dialog was cancelled
+        zip = createZipWriter(sink);
+    }
+
     setIsProcessing(true);
+
+    const updateImage = (id: string, changes: Partial<ProcessedImage>) => {
+        setImages(prev => prev.map(img => img.id === id ? { ...img, ...changes } : img));
+    };
+    const batch = images;
+    batch.forEach(img => updateImage(img.id, { status: 'pending', errorMessage: undefined, output: undefined }));
+    setBatchProgress({ total: batch.length, done: 0, failed: 0, startedAt: Date.now(), pausedAt: null, pausedMs: 0 });
+
+    // Names use the batch start time and batch order, whichever image finishes first
+    const startedAt = new Date();
+    const uniqueName = createUniqueNamer();
+
+    // Logos and text are rasterized once here, then shared with every worker
+    let pool: RenderPool | null = null;
+    let setupError: string | null = null;
+    try {
+        pool = createRenderPool(await prepareLayerMarks(settings, logos));
+        poolRef.current = pool;
+    } catch (e) {
+        setupError = e instanceof Error ? e.message : "Failed to prepare the watermark.";
+    }
     
-    // Process all images
-    const processed = await Promise.all(images.map(async (img) => {
+    // Process all images through the pool, streaming each finished one into the archive.
+    // Only one-by-one downloads keep the encoded files until the batch ends.
+    let zipQueue = Promise.resolve();
+    const downloads = new Map<string, Blob>();
+    const processed = await Promise.all(batch.map(async (img, index): Promise<ProcessedImage> => {
         try {
-            const url = await applyWatermarkToImage(img.originalFile, logo, settings);
-            return { ...img, previewUrl: url, status: 'done' as const, errorMessage: undefined };
+            if (!pool) throw new Error(setupError!);
+            const effective = getEffectiveSettings(settings, img.overrides);
+            const captionContext = { index: index + 1, total: batch.length, date: startedAt };
+            const output = await pool.render(img.originalFile, effective, img.overrides, captionContext, () => updateImage(img.id, { status: 'processing' }));
+            const fileName = uniqueName(getOutputFileName(settings.fileNameTemplate, {
+                originalName: img.originalFile.name,
+                index: index + 1,
+                total: batch.length,
+                date: startedAt,
+                width: output.width,
+                height: output.height,
+                preset: presetName ?? '',
+                format: effective.outputFormat,
+            }));
+            if (zip) {
+                // Archive entries have to be written one after another
+                const write = zipQueue.then(() => zip.addFile(fileName, output.blob));
+                zipQueue = write.catch(() => undefined);
+                await write;
+            } else {
+                downloads.set(img.id, output.blob);
+            }
+            const result = {
+                status: 'done' as const,
+                errorMessage: undefined,
+                output: {
+                    fileName,
+                    size: output.blob.size,
+                    quality: output.quality,
+                    exceedsTarget: output.exceedsTarget,
+                    autoAnchors: output.placements.filter(p => p.auto).map(p => p.position as AnchorPosition),
+                    logoVariant: output.logoVariant,
+                },
+            };
+            updateImage(img.id, result);
+            setBatchProgress(prev => prev && { ...prev, done: prev.done + 1 });
+            return { ...img, ...result };
         } catch (e) {
+            if (e instanceof BatchCancelledError) {
+                updateImage(img.id, { status: 'pending' });
+                return { ...img, status: 'pending' };
+            }
             const msg = e instanceof Error ? e.message : "Processing failed due to unknown error.";
-            return { ...img, status: 'error' as const, errorMessage: msg };
+            updateImage(img.id, { status: 'error', errorMessage: msg });
+            setBatchProgress(prev => prev && { ...prev, failed: prev.failed + 1 });
+            return { ...img, status: 'error', errorMessage: msg };
         }
     }));
 
-    setImages(processed);
-    setIsProcessing(false);
+    const cancelled = pool?.isCancelled() ?? false;
+    pool?.dispose();
+    poolRef.current = null;
 
     // Calculate Results
     const failures = processed
@@ -140,8 +496,23 @@ const App: React.FC = () => {
             name: img.originalFile.name, 
             error: img.errorMessage || "Unknown Error" 
         }));
+
+    if (zip && cancelled) {
+        await zip.abort().catch(() => undefined);
+    } else if (zip) {
+        try {
+            await zip.close();
+        } catch (e) {
+            console.error("Failed to finish ZIP archive", e);
+            await zip.abort().catch(() => undefined);
+            failures.push({ id: 'zip-archive', name: 'ZIP archive', error: e instanceof Error ? e.message : "Could not write the ZIP archive." });
+        }
+    }
+
+    setIsProcessing(false);
+    setBatchProgress(null);
     
-    const successCount = processed.length - failures.length;
+    const successCount = processed.filter(img => img.status === 'done').length;
 
     if (failures.length > 0) {
         setBatchErrorResults({
@@ -151,33 +522,41 @@ const App: React.FC = () => {
         });
     }
 
+    if (zip || cancelled) return;
+
     // Trigger Downloads for Successful Images
     processed.forEach((img, index) => {
-        if (img.status === 'done' && img.previewUrl) {
+        const blob = downloads.get(img.id);
+        if (img.status === 'done' && blob && img.output) {
+            const { fileName } = img.output;
             setTimeout(() => {
-                const link = document.createElement('a');
-                link.href = img.previewUrl;
-                
-                // Determine extension
-                let ext = 'jpg';
-                if (settings.outputFormat === 'image/png') ext = 'png';
-                else if (settings.outputFormat === 'image/webp') ext = 'webp';
-
-                // Strip original extension
-                const originalName = img.originalFile.name.substring(0, img.originalFile.name.lastIndexOf('.')) || img.originalFile.name;
-                link.download = `watermarked-${originalName}.${ext}`;
-                
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
+                const url = URL.createObjectURL(blob);
+                triggerDownload(url, fileName);
+                setTimeout(() => URL.revokeObjectURL(url), 10000);
             }, index * 200); 
         }
     });
   };
 
+  const pauseBatch = () => {
+      poolRef.current?.pause();
+      setBatchProgress(prev => prev && { ...prev, pausedAt: Date.now() });
+  };
+
+  const resumeBatch = () => {
+      poolRef.current?.resume();
+      setBatchProgress(prev => prev && prev.pausedAt !== null
+          ? { ...prev, pausedAt: null, pausedMs: prev.pausedMs + (Date.now() - prev.pausedAt) }
+          : prev);
+  };
+
+  const cancelBatch = () => {
+      poolRef.current?.cancel();
+  };
+
   // Check before processing
   const handleProcessClick = () => {
-      if (!logo || images.length === 0) return;
+      if (!hasWatermark || images.length === 0) return;
 
       if (images.length > 10) {
           setShowConfirmModal(true);
@@ -188,6 +567,11 @@ const App: React.FC = () => {
 
   const removeImage = (id: string) => {
     setImages(prev => prev.filter(img => img.id !== id));
+    setSelectedImageIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+    });
     if (activePreviewId === id) {
         setActivePreviewId(null);
         setPreviewResult(null);
@@ -196,19 +580,57 @@ const App: React.FC = () => {
   };
 
   const resetAll = () => {
+      poolRef.current?.cancel();
       setImages([]);
-      setLogo(null);
-      setLogoPreview(null);
+      setSelectedImageIds(new Set());
+      setLogos([]);
       setActivePreviewId(null);
       setPreviewResult(null);
       setPreviewError(null);
       setBatchErrorResults(null);
+      setSessionUsage(null);
+      clearSession().catch((e) => console.error('Could not clear the session', e));
   };
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col font-sans">
-      <Header />
+      <Header view={view} onViewChange={setView} />
       
+      {/* Resume Session Prompt */}
+      {sessionState === 'prompt' && restorableSession && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 transform scale-100 animate-in zoom-in-95 duration-200">
+            <div className="flex items-center gap-4 mb-4">
+              <div className="bg-blue-100 p-3 rounded-full text-blue-600">
+                <History size={24} />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900">Resume Previous Session?</h3>
+            </div>
+
+            <p className="text-gray-600 mb-6">
+              You have <span className="font-bold text-gray-900">{restorableSession.images.length} photo{restorableSession.images.length === 1 ? '' : 's'}</span> and{' '}
+              <span className="font-bold text-gray-900">{restorableSession.logos.length} logo{restorableSession.logos.length === 1 ? '' : 's'}</span> from{' '}
+              {new Date(restorableSession.savedAt).toLocaleString()}, with their statuses and settings.
+            </p>
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={discardSession}
+                className="px-5 py-2.5 rounded-xl border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+              >
+                Start Fresh
+              </button>
+              <button
+                onClick={resumeSession}
+                className="px-5 py-2.5 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 shadow-lg shadow-blue-200 transition-colors flex items-center gap-2"
+              >
+                Resume
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Confirmation Modal */}
       {showConfirmModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
@@ -222,7 +644,7 @@ const App: React.FC = () => {
             
             <p className="text-gray-600 mb-6">
               You are about to process <span className="font-bold text-gray-900">{images.length} images</span>. 
-              This operation might take some time and will initiate multiple file downloads.
+              This operation might take some time and will {settings.downloadAs === 'zip' ? 'save them as a single ZIP archive' : 'initiate multiple file downloads'}.
             </p>
             
             <div className="flex gap-3 justify-end">
@@ -283,6 +705,11 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {view === 'verify' ? (
+      <main className="flex-1 max-w-3xl w-full mx-auto p-4 md:p-6">
+        <VerifyPanel ownerId={settings.invisibleMark.ownerId} />
+      </main>
+      ) : (
       <main className="flex-1 max-w-7xl w-full mx-auto p-4 md:p-6 gap-6 grid grid-cols-1 lg:grid-cols-12">
         
         {/* Left Sidebar: Controls & Uploads */}
@@ -292,28 +719,45 @@ const App: React.FC = () => {
             <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
                 <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
                     <span className="w-2 h-6 bg-red-600 rounded-full mr-2"></span>
-                    1. Upload Logo
+                    1. Upload Logos
                 </h2>
-                {logoPreview ? (
-                    <div className="relative group rounded-xl overflow-hidden border-2 border-dashed border-red-200 bg-red-50 p-4 text-center">
-                        <img src={logoPreview} alt="Logo" className="h-24 mx-auto object-contain" />
-                        <button 
-                            onClick={() => { setLogo(null); setLogoPreview(null); }}
-                            className="absolute top-2 right-2 p-1.5 bg-red-600 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                            <X size={14} />
-                        </button>
-                        <p className="text-xs text-red-600 mt-2 font-medium">{logo?.name}</p>
+                {logos.length > 0 && (
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                        {logos.map((logo) => (
+                            <div key={logo.id} className={`relative group rounded-xl overflow-hidden border-2 border-dashed p-2 text-center ${editingLogoId === logo.id ? 'border-red-600 bg-red-100' : 'border-red-200 bg-red-50'}`}>
+                                <img src={logo.previewUrl} alt="Logo" className="h-14 mx-auto object-contain" />
+                                <button 
+                                    onClick={() => removeLogo(logo.id)}
+                                    className="absolute top-1 right-1 p-1 bg-red-600 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    <X size={12} />
+                                </button>
+                                <button
+                                    onClick={() => setEditingLogoId(editingLogoId === logo.id ? null : logo.id)}
+                                    title="Remove background, recolor or tint"
+                                    className="absolute top-1 left-1 p-1 bg-white text-red-600 border border-red-200 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    <SlidersHorizontal size={12} />
+                                </button>
+                                <p className="text-xs text-red-600 mt-1 font-medium truncate">{logo.original.name}</p>
+                            </div>
+                        ))}
                     </div>
-                ) : (
-                    <ImageUploader 
-                        onFilesSelected={handleLogoSelected} 
-                        multiple={false} 
-                        label="Drop Logo Here"
-                        compact={true}
-                        colorTheme="red"
+                )}
+                {editingLogo && (
+                    <LogoProcessingPanel
+                        logo={editingLogo}
+                        onChange={(changes) => updateLogoProcessing(editingLogo.id, changes)}
+                        onClose={() => setEditingLogoId(null)}
                     />
                 )}
+                <ImageUploader 
+                    onFilesSelected={handleLogoSelected} 
+                    multiple={true} 
+                    label={logos.length > 0 ? "Add Another Logo" : "Drop Logo Here"}
+                    compact={true}
+                    colorTheme="red"
+                />
             </div>
 
             {/* Settings */}
@@ -321,41 +765,77 @@ const App: React.FC = () => {
                 {/* Decorative corner */}
                 <div className="absolute top-0 right-0 w-16 h-16 bg-shuka-red opacity-10 rounded-bl-3xl"></div>
 
-                <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center relative z-10">
-                    <span className="w-2 h-6 bg-blue-600 rounded-full mr-2"></span>
-                    2. Customize
-                </h2>
+                <div className="flex items-center justify-between mb-4 relative z-10">
+                    <h2 className="text-lg font-bold text-gray-800 flex items-center">
+                        <span className="w-2 h-6 bg-blue-600 rounded-full mr-2"></span>
+                        2. Customize
+                    </h2>
+                    {/* Undo / Redo */}
+                    <div className="flex gap-1 mr-6">
+                        <button
+                            onClick={undo}
+                            disabled={!canUndo}
+                            title="Undo (Ctrl/Cmd+Z)"
+                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-30 disabled:pointer-events-none"
+                        >
+                            <Undo2 size={18} />
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={!canRedo}
+                            title="Redo (Shift+Ctrl/Cmd+Z)"
+                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-30 disabled:pointer-events-none"
+                        >
+                            <Redo2 size={18} />
+                        </button>
+                    </div>
+                </div>
                 <WatermarkControls 
                     settings={settings} 
+                    logos={logos}
+                    selectedLayerId={selectedLayerId}
+                    onSelectLayer={setSelectedLayerId}
                     onChange={setSettings} 
                     onSave={handleSaveSettings}
-                    disabled={!logo || images.length === 0}
+                    presetName={presetName}
+                    onPresetChange={setPresetName}
+                    histogram={previewResult?.histogram ?? null}
+                    disabled={images.length === 0}
                 />
             </div>
 
             {/* Action Buttons */}
             <div className="space-y-3">
-                 <button
-                    onClick={handleProcessClick}
-                    disabled={!logo || images.length === 0 || isProcessing}
-                    className={`w-full py-4 px-6 rounded-xl font-bold text-lg text-white shadow-lg transition-all transform flex items-center justify-center gap-2
-                        ${!logo || images.length === 0 
-                            ? 'bg-gray-300 cursor-not-allowed' 
-                            : 'bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-700 hover:to-orange-700 hover:scale-[1.02]'
-                        }`}
-                 >
-                    {isProcessing ? (
-                        <>
-                            <RefreshCw className="animate-spin" /> Processing...
-                        </>
-                    ) : (
-                        <>
-                            <Download size={24} /> Download All
-                        </>
-                    )}
-                 </button>
+                 {batchProgress ? (
+                    <BatchProgressPanel
+                        progress={batchProgress}
+                        onPause={pauseBatch}
+                        onResume={resumeBatch}
+                        onCancel={cancelBatch}
+                    />
+                 ) : (
+                     <button
+                        onClick={handleProcessClick}
+                        disabled={!hasWatermark || images.length === 0 || isProcessing}
+                        className={`w-full py-4 px-6 rounded-xl font-bold text-lg text-white shadow-lg transition-all transform flex items-center justify-center gap-2
+                            ${!hasWatermark || images.length === 0 
+                                ? 'bg-gray-300 cursor-not-allowed' 
+                                : 'bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-700 hover:to-orange-700 hover:scale-[1.02]'
+                            }`}
+                     >
+                        {isProcessing ? (
+                            <>
+                                <RefreshCw className="animate-spin" /> Processing...
+                            </>
+                        ) : (
+                            <>
+                                <Download size={24} /> Download All
+                            </>
+                        )}
+                     </button>
+                 )}
                  
-                 {images.length > 0 && (
+                 {(images.length > 0 || logos.length > 0) && (
                      <button
                         onClick={resetAll}
                         className="w-full py-3 text-sm text-gray-500 hover:text-red-600 font-medium transition-colors flex items-center justify-center gap-2"
@@ -363,6 +843,15 @@ const App: React.FC = () => {
                          <Trash2 size={16} /> Clear All
                      </button>
                  )}
+
+                 {/* Saved Session Storage */}
+                 {sessionUsage && (images.length > 0 || logos.length > 0) && (
+                     <p className="text-xs text-gray-400 flex items-center justify-center gap-1.5" title="Photos and logos are kept in this browser until you clear them">
+                         <HardDrive size={12} />
+                         Session saved · {formatFileSize(sessionUsage.used)}
+                         {sessionUsage.available !== null && ` (${formatFileSize(sessionUsage.available)} free)`}
+                     </p>
+                 )}
             </div>
         </div>
 
@@ -380,6 +869,26 @@ const App: React.FC = () => {
                         </div>
                      </div>
                  ) : (
+                    <>
+                    {/* Preview View Options */}
+                    <div className="flex items-center justify-end gap-2 px-4 pt-4">
+                        {([
+                            { label: 'Before / After', icon: SplitSquareHorizontal, active: compareMode, toggle: () => setCompareMode(v => !v), title: 'Compare with the original' },
+                            { label: '100%', icon: ZoomIn, active: actualSize, toggle: () => setActualSize(v => !v), title: 'Actual pixels; drag to pan' },
+                            { label: 'Enhancements', icon: Wand2, active: previewEnhancements, toggle: () => setPreviewEnhancements(v => !v), title: 'Show the photo enhancements in the preview' },
+                        ]).map(({ label, icon: Icon, active, toggle, title }) => (
+                            <button
+                                key={label}
+                                onClick={toggle}
+                                title={title}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-all ${
+                                    active ? 'border-blue-600 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+                                }`}
+                            >
+                                <Icon size={14} /> {label}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex-1 bg-gray-100 rounded-xl relative overflow-hidden flex items-center justify-center m-4">
                         {/* Background pattern for transparency checks */}
                         <div className="absolute inset-0 opacity-10" style={{ backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', backgroundSize: '20px 20px' }}></div>
@@ -394,11 +903,17 @@ const App: React.FC = () => {
                                 <p className="text-xs text-gray-400">Try using a smaller image or a different format.</p>
                             </div>
                         ) : activePreviewId && previewResult ? (
-                            <img 
-                                src={previewResult} 
-                                alt="Preview" 
-                                className="max-w-full max-h-[500px] object-contain shadow-xl relative z-10" 
+                            <WatermarkPreview
+                                result={previewResult}
+                                beforeUrl={compareMode ? beforeResult?.url ?? null : null}
+                                actualSize={actualSize}
+                                layers={previewSettings.layers}
+                                selectedLayerId={selectedLayerId}
+                                onSelectLayer={setSelectedLayerId}
+                                onLayerChange={handlePreviewLayerChange}
                             />
+                        ) : activePreviewId && !hasWatermark ? (
+                            <p className="text-gray-400 relative z-10">Add a logo or text layer, or turn on the frame, to preview</p>
                         ) : activePreviewId ? (
                             <div className="flex flex-col items-center text-gray-400">
                                 <RefreshCw className="animate-spin mb-2" size={32} />
@@ -408,6 +923,7 @@ const App: React.FC = () => {
                             <p className="text-gray-400">Select an image to preview</p>
                         )}
                     </div>
+                    </>
                  )}
             </div>
 
@@ -429,9 +945,10 @@ const App: React.FC = () => {
                         {images.map((img) => (
                             <div 
                                 key={img.id}
-                                onClick={() => setActivePreviewId(img.id)}
-                                className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all group
+                                onClick={(e) => handleThumbnailClick(e, img.id)}
+                                className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all group select-none
                                     ${activePreviewId === img.id ? 'border-blue-600 ring-2 ring-blue-100' : 'border-gray-200 hover:border-gray-300'}
+                                    ${selectedImageIds.has(img.id) ? 'ring-4 ring-blue-300' : ''}
                                     ${img.status === 'error' ? 'border-red-400 bg-red-50 ring-2 ring-red-100' : ''}
                                 `}
                             >
@@ -441,6 +958,21 @@ const App: React.FC = () => {
                                     className={`w-full h-full object-cover ${img.status === 'error' ? 'opacity-50 grayscale' : ''}`}
                                 />
                                 
+                                {hasAdaptiveLayer && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); cycleLogoVariant(img.id); }}
+                                        className={`absolute top-1 right-7 flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-medium capitalize z-10 transition-all ${
+                                            img.overrides.logoVariant
+                                            ? 'bg-red-600 text-white'
+                                            : 'bg-black/50 text-white opacity-0 group-hover:opacity-100'
+                                        }`}
+                                        title="Logo variant for this photo (click to change)"
+                                    >
+                                        <Contrast size={10} />
+                                        {img.overrides.logoVariant ?? (img.output?.logoVariant ? `Auto: ${img.output.logoVariant}` : 'Auto')}
+                                    </button>
+                                )}
+
                                 <button
                                     onClick={(e) => { e.stopPropagation(); removeImage(img.id); }}
                                     className="absolute top-1 right-1 bg-black/50 hover:bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-all z-10"
@@ -448,12 +980,50 @@ const App: React.FC = () => {
                                     <X size={12} />
                                 </button>
 
+                                {img.status === 'processing' && (
+                                    <div className="absolute inset-0 flex items-center justify-center z-10 bg-white/40">
+                                         <RefreshCw size={22} className="text-red-600 animate-spin drop-shadow-sm" />
+                                    </div>
+                                )}
+
                                 {img.status === 'done' && (
                                     <div className="absolute bottom-1 right-1 bg-green-500 text-white p-1 rounded-full z-10">
                                         <Download size={10} />
                                     </div>
                                 )}
 
+                                {/* Badges: selection, per-image settings, auto placement */}
+                                <div className="absolute top-1 left-1 flex flex-col items-start gap-0.5 z-10">
+                                    {selectedImageIds.has(img.id) && (
+                                        <div className="bg-blue-600 text-white p-0.5 rounded-full">
+                                            <Check size={10} />
+                                        </div>
+                                    )}
+                                    {hasSettingOverrides(img.overrides) && (
+                                        <div className="flex items-center gap-0.5 px-1 py-0.5 rounded bg-blue-600 text-white text-[10px] font-medium" title="Has its own settings">
+                                            <SlidersHorizontal size={10} />
+                                            {img.overrides.skipWatermark ? 'Skip' : 'Custom'}
+                                        </div>
+                                    )}
+                                    {img.status === 'done' && img.output && img.output.autoAnchors.length > 0 && (
+                                        <div
+                                            className="flex gap-0.5 px-1 py-0.5 rounded bg-black/60 text-white"
+                                            title={`Auto-placed: ${img.output.autoAnchors.map(a => a.replace('-', ' ')).join(', ')}`}
+                                        >
+                                            {img.output.autoAnchors.map((anchor, i) => <AnchorIcon key={i} anchor={anchor} size={10} />)}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {img.status === 'done' && img.output && (
+                                    <div
+                                        className={`absolute bottom-1 left-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-white z-10 ${img.output.exceedsTarget ? 'bg-red-600' : 'bg-black/60'}`}
+                                        title={img.output.exceedsTarget ? 'Over the max file size even at the lowest quality' : undefined}
+                                    >
+                                        {formatFileSize(img.output.size)}{img.output.quality !== null && ` · Q${img.output.quality}`}
+                                    </div>
+                                )}
+
                                 {img.status === 'error' && (
                                     <div 
                                         className="absolute inset-0 flex items-center justify-center z-10 bg-white/60 backdrop-blur-[1px]" 
@@ -465,10 +1035,29 @@ const App: React.FC = () => {
                             </div>
                         ))}
                     </div>
+                    {selectedImages.length === 0 && images.length > 1 && (
+                        <p className="text-xs text-gray-400 mt-3">Ctrl/Cmd-click or Shift-click photos to give them their own settings.</p>
+                    )}
                 </div>
             )}
+
+            {/* Per-image Settings */}
+            {selectedImages.length > 0 && (
+                <ImageOverridesPanel
+                    images={selectedImages}
+                    settings={settings}
+                    selectedLayerId={selectedLayerId}
+                    onSelectLayer={setSelectedLayerId}
+                    onChange={(update) => updateOverrides(selectedImageIds, update)}
+                    onReset={() => resetOverrides(selectedImageIds)}
+                    onAutoAdjust={() => autoAdjust(selectedImageIds)}
+                    autoAdjusting={autoAdjusting}
+                    onClearSelection={() => setSelectedImageIds(new Set())}
+                />
+            )}
         </div>
       </main>
+      )}
       
       {/* Footer */}
       <footer className="mt-auto py-6 bg-gray-900 text-gray-400 text-center text-sm border-t-4 border-shuka-blue">
@@ -0,0 +1,150 @@
+import { readFile, readdir, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { WatermarkSettings, LogoAsset } from '../types';
+import { migrateSettings, linkWaitingLogos } from '../utils/settings';
+import { parsePresetFile, PRESET_FILE_TYPE } from '../utils/presets';
+import { prepareLayerMarks, renderWatermarkedImage, isLayerDrawable } from '../utils/watermark';
+import { getOutputFileName, createUniqueNamer, formatFileSize } from '../utils/download';
+import { setRasterBackend } from '../utils/raster';
+import { prepareUploadedLogo } from '../utils/logoProcessing';
+import { nodeRasterBackend, registerFonts } from './nodeRaster';
+
+// Headless batch watermarking. Runs the exact same layout and compositing code
+// as the web app, with @napi-rs/canvas standing in for the browser canvas.
+
+const USAGE = `Usage: npm run watermark -- <input-dir> --settings <file.json> [options]
+
+Options:
+  -s, --settings <file>  Saved settings or an exported presets file
+  -p, --preset <name>    Preset to use when the file holds more than one
+  -l, --logo <file>      Logo image, repeat for several logo layers (in order)
+  -f, --font <file>      Font file (TTF/OTF/WOFF2) for text layers, repeatable
+  --remove-background    Key out the logos' background color (taken from their corners)
+  -o, --out <dir>        Output directory (default: <input-dir>/watermarked)
+  -h, --help             Show this help`;
+
+const INPUT_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+const readFileAsFile = async (filePath: string) => new File([await readFile(filePath)], path.basename(filePath));
+
+// Accepts the settings saved by the app or a presets export (pick one with --preset).
+// The preset name feeds the {preset} filename token.
+const loadSettings = async (filePath: string, presetName?: string): Promise<{ settings: WatermarkSettings; preset: string }> => {
+  const json = await readFile(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${filePath} is not valid JSON.`);
+  }
+
+  if ((parsed as { type?: unknown } | null)?.type !== PRESET_FILE_TYPE) {
+    return { settings: migrateSettings(parsed), preset: presetName ?? '' };
+  }
+
+  const presets = parsePresetFile(json);
+  const names = presets.map(p => `"${p.name}"`).join(', ');
+  if (presetName) {
+    const preset = presets.find(p => p.name.toLowerCase() === presetName.toLowerCase());
+    if (!preset) throw new Error(`No preset named "${presetName}". Available: ${names}.`);
+    return { settings: preset.settings, preset: preset.name };
+  }
+  if (presets.length > 1) {
+    throw new Error(`The file contains several presets; choose one with --preset. Available: ${names}.`);
+  }
+  return { settings: presets[0].settings, preset: presets[0].name };
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      settings: { type: 'string', short: 's' },
+      preset: { type: 'string', short: 'p' },
+      logo: { type: 'string', short: 'l', multiple: true },
+      font: { type: 'string', short: 'f', multiple: true },
+      'remove-background': { type: 'boolean' },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1 || !values.settings) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const inputDir = path.resolve(positionals[0]);
+  const outputDir = path.resolve(values.out ?? path.join(inputDir, 'watermarked'));
+
+  setRasterBackend(nodeRasterBackend);
+  registerFonts(values.font ?? []);
+
+  // Logos are used as they are, like an upload in the app, unless --remove-background is given
+  const removeBackground = values['remove-background'] ?? false;
+  const logos: LogoAsset[] = await Promise.all((values.logo ?? []).map(async (logoPath) => {
+    const original = await readFileAsFile(logoPath);
+    return { id: crypto.randomUUID(), ...await prepareUploadedLogo(original, { removeBackground }), original, previewUrl: '' };
+  }));
+
+  // Saved logo ids only mean something inside a browser session, so every
+  // logo layer takes the --logo files in order (and the caption the first one)
+  const { settings: loaded, preset } = await loadSettings(values.settings, values.preset);
+  const settings = { ...loaded, layers: linkWaitingLogos(loaded.layers, logos, new Set()) };
+
+  if (!settings.layers.some(layer => isLayerDrawable(layer, logos)) && !settings.frame.enabled) {
+    throw new Error('Nothing to apply. Add a logo or text layer, or turn on the frame.');
+  }
+
+  const files = (await readdir(inputDir, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && INPUT_EXTENSIONS.has(path.extname(entry.name).toLowerCase()))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  if (files.length === 0) {
+    throw new Error(`No JPEG, PNG or WebP images found in ${inputDir}.`);
+  }
+
+  await mkdir(outputDir, { recursive: true });
+  const marks = await prepareLayerMarks(settings, logos);
+
+  const startedAt = new Date();
+  const uniqueName = createUniqueNamer();
+  let failed = 0;
+  for (const [index, name] of files.entries()) {
+    try {
+      const caption = { index: index + 1, total: files.length, date: startedAt };
+      const output = await renderWatermarkedImage(await readFileAsFile(path.join(inputDir, name)), settings, marks, {}, caption);
+      const outputName = uniqueName(getOutputFileName(settings.fileNameTemplate, {
+        originalName: name,
+        index: index + 1,
+        total: files.length,
+        date: startedAt,
+        width: output.width,
+        height: output.height,
+        preset,
+        format: settings.outputFormat,
+      }));
+      await writeFile(path.join(outputDir, outputName), Buffer.from(await output.blob.arrayBuffer()));
+
+      const quality = output.quality !== null ? `, Q${output.quality}` : '';
+      const warning = output.exceedsTarget ? ' (over the max file size)' : '';
+      console.log(`✓ ${name} → ${outputName} (${output.width}×${output.height}, ${formatFileSize(output.blob.size)}${quality})${warning}`);
+    } catch (e) {
+      failed++;
+      console.error(`✗ ${name}: ${e instanceof Error ? e.message : "Processing failed due to unknown error."}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed} of ${files.length} images watermarked into ${outputDir}`);
+  return failed > 0 ? 1 : 0;
+};
+
+main().then(
+  (code) => { process.exitCode = code; },
+  (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  }
+);
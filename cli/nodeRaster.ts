@@ -0,0 +1,51 @@
+import { createCanvas, loadImage, GlobalFonts, Canvas } from '@napi-rs/canvas';
+import { RasterBackend, RasterCanvas, RasterImage, drawTextLine } from '../utils/raster';
+
+// @napi-rs/canvas mirrors the browser canvas API closely enough for the
+// pipeline; the casts only bridge its own type names to the DOM ones.
+
+const ENCODER_FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const nodeRasterBackend: RasterBackend = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as RasterCanvas,
+  decodeImage: async (data) => {
+    // Skia applies the EXIF orientation while decoding, like current browsers
+    const image = await loadImage(Buffer.from(await data.arrayBuffer()));
+    return image as unknown as RasterImage;
+  },
+  // Skia renders SVG at the size on its root element
+  decodeSvg: async (markup, width, height) => {
+    const image = await loadImage(Buffer.from(markup));
+    if (image.width === width && image.height === height) return image as unknown as RasterImage;
+    const canvas = createCanvas(width, height);
+    canvas.getContext('2d').drawImage(image, 0, 0, width, height);
+    return canvas as unknown as RasterImage;
+  },
+  renderText: async (text, font, color) => drawTextLine(nodeRasterBackend.createCanvas, text, font, color) as unknown as RasterImage,
+  // A canvas can be drawn onto another canvas directly
+  toImage: async (canvas) => canvas as unknown as RasterImage,
+  encode: async (canvas, type, quality) => {
+    const format = ENCODER_FORMATS[type];
+    if (!format) throw new Error(`Unsupported output format ${type}`);
+    const node = canvas as unknown as Canvas;
+    const buffer = format === 'png'
+      ? await node.encode('png')
+      : await node.encode(format, Math.round((quality ?? 0.92) * 100));
+    return new Blob([buffer], { type });
+  },
+  // Fonts are registered up front from --font; unknown families fall back to the default
+  loadFont: async () => {},
+  release: () => {},
+};
+
+export const registerFonts = (paths: string[]) => {
+  for (const path of paths) {
+    if (!GlobalFonts.registerFromPath(path)) {
+      throw new Error(`Could not load font "${path}".`);
+    }
+  }
+};
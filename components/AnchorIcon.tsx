@@ -0,0 +1,22 @@
+import React from 'react';
+import { AnchorPosition } from '../types';
+import { AlignCenter, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight } from 'lucide-react';
+
+const ICONS: Record<AnchorPosition, typeof AlignCenter> = {
+  'top-left': ArrowUpLeft,
+  'top-right': ArrowUpRight,
+  'center': AlignCenter,
+  'bottom-left': ArrowDownLeft,
+  'bottom-right': ArrowDownRight,
+};
+
+interface AnchorIconProps {
+  anchor: AnchorPosition;
+  size?: number;
+  className?: string;
+}
+
+export const AnchorIcon: React.FC<AnchorIconProps> = ({ anchor, size = 16, className }) => {
+  const Icon = ICONS[anchor];
+  return <Icon size={size} className={className} />;
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { BatchProgress } from '../types';
+import { Pause, Play, X, RefreshCw } from 'lucide-react';
+
+interface BatchProgressPanelProps {
+  progress: BatchProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(1, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+export const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({ progress, onPause, onResume, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+  const paused = progress.pausedAt !== null;
+
+  // Tick once a second so the ETA counts down between finished images
+  useEffect(() => {
+    if (paused) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [paused]);
+
+  const finished = progress.done + progress.failed;
+  const percent = progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0;
+
+  // Average time per finished image, ignoring time spent paused
+  const activeMs = (progress.pausedAt ?? now) - progress.startedAt - progress.pausedMs;
+  const eta = finished > 0 ? (activeMs / finished) * (progress.total - finished) : null;
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-gray-800 flex items-center gap-2">
+          {paused ? <Pause size={18} className="text-yellow-500" /> : <RefreshCw size={18} className="animate-spin text-red-600" />}
+          {paused ? 'Paused' : 'Processing...'}
+        </span>
+        <span className="text-sm font-mono text-gray-500">{finished} / {progress.total}</span>
+      </div>
+
+      <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-red-600 to-orange-600 transition-all duration-300"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {progress.done} done{progress.failed > 0 && <span className="text-red-600">, {progress.failed} failed</span>}
+        </span>
+        <span>{paused ? 'ETA on hold' : eta !== null ? `About ${formatDuration(eta)} left` : 'Estimating...'}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 pt-1">
+        <button
+          onClick={paused ? onResume : onPause}
+          className="py-2 px-4 rounded-lg border-2 border-gray-200 text-sm font-medium text-gray-700 hover:border-gray-300 flex items-center justify-center gap-2"
+        >
+          {paused ? <><Play size={16} /> Resume</> : <><Pause size={16} /> Pause</>}
+        </button>
+        <button
+          onClick={onCancel}
+          className="py-2 px-4 rounded-lg border-2 border-red-200 text-sm font-medium text-red-600 hover:bg-red-50 flex items-center justify-center gap-2"
+        >
+          <X size={16} /> Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
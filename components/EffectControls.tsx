@@ -0,0 +1,64 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+
+// Fields every layer effect has; the color picker shows only for effects with a color
+interface BaseEffect {
+  enabled: boolean;
+  color?: string;
+}
+
+// The number fields of an effect, the ones a slider can edit
+type NumericField<T> = { [F in keyof T]: T[F] extends number ? F : never }[keyof T];
+
+export interface EffectOption<T extends BaseEffect> {
+  label: string;
+  sliders: { key: NumericField<T>; label: string; min: number; max: number; step: number; unit: string }[];
+}
+
+interface EffectControlsProps<T extends BaseEffect> {
+  option: EffectOption<T>;
+  values: T & Record<NumericField<T>, number>;
+  onChange: (values: T) => void;
+}
+
+// On/off toggle for one layer effect, with its color and sliders below when on
+export const EffectControls = <T extends BaseEffect>({ option, values, onChange }: EffectControlsProps<T>) => (
+  <div className="space-y-3">
+      <button
+          onClick={() => onChange({ ...values, enabled: !values.enabled })}
+          className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+              values.enabled
+              ? 'border-gray-800 bg-gray-50 text-gray-900'
+              : 'border-gray-200 text-gray-500 hover:border-gray-300'
+          }`}
+      >
+          <span className="font-medium">{option.label}</span>
+          <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${values.enabled ? 'bg-gray-800 border-gray-800 text-white' : 'border-gray-300 bg-white'}`}>
+              {values.enabled && <Check size={14} />}
+          </div>
+      </button>
+      {values.enabled && (
+          <div className="space-y-3 pl-3 border-l-2 border-gray-100">
+              {values.color !== undefined && (
+                  <label className="flex items-center justify-between text-xs font-medium text-gray-500">
+                      Color
+                      <input type="color" value={values.color} onChange={(e) => onChange({ ...values, color: e.target.value })} className="w-8 h-6 cursor-pointer bg-transparent" />
+                  </label>
+              )}
+              {option.sliders.map((slider) => (
+                  <div key={String(slider.key)}>
+                      <div className="flex justify-between mb-1">
+                          <label className="text-xs font-medium text-gray-500">{slider.label}</label>
+                          <span className="text-xs font-mono text-gray-400">{values[slider.key]}{slider.unit}</span>
+                      </div>
+                      <input
+                          type="range" min={slider.min} max={slider.max} step={slider.step} value={values[slider.key]}
+                          onChange={(e) => onChange({ ...values, [slider.key]: Number(e.target.value) })}
+                          className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-gray-800"
+                      />
+                  </div>
+              ))}
+          </div>
+      )}
+  </div>
+);
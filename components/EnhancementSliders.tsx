@@ -0,0 +1,90 @@
+import React from 'react';
+import { EnhancementSettings } from '../types';
+
+type SliderKey = Exclude<keyof EnhancementSettings, 'autoLevels'>;
+
+interface Slider {
+  key: SliderKey;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+}
+
+const TONE_SLIDERS: Slider[] = [
+  { key: 'brightness', label: 'Brightness', min: 50, max: 150, unit: '%' },
+  { key: 'contrast', label: 'Contrast', min: 50, max: 150, unit: '%' },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 200, unit: '%' },
+];
+
+const LEVELS_SLIDERS: Slider[] = [
+  { key: 'levelsBlack', label: 'Black Point', min: 0, max: 254 },
+  { key: 'levelsWhite', label: 'White Point', min: 1, max: 255 },
+];
+
+const CORRECTION_SLIDERS: Slider[] = [
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100 },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 200, unit: '%' },
+];
+
+const SHARPEN_RADIUS: Slider = { key: 'sharpenRadius', label: 'Sharpen Radius', min: 0.5, max: 5, step: 0.1, unit: 'px' };
+const VIGNETTE: Slider = { key: 'vignette', label: 'Vignette', min: -100, max: 100 };
+
+interface EnhancementSlidersProps {
+  values: EnhancementSettings;
+  onChange: (changes: Partial<EnhancementSettings>) => void;
+  isOverridden?: (key: keyof EnhancementSettings) => boolean; // Highlights values that differ from the batch
+}
+
+// The enhancement controls, shared by the batch settings and the per-photo panel
+export const EnhancementSliders: React.FC<EnhancementSlidersProps> = ({ values, onChange, isOverridden = () => false }) => {
+  const labelClass = (key: keyof EnhancementSettings) =>
+    `text-xs font-medium ${isOverridden(key) ? 'text-blue-600' : 'text-gray-500'}`;
+
+  // Black stays below white, whichever handle moves
+  const setValue = (key: SliderKey, value: number) => {
+    if (key === 'levelsBlack') onChange({ levelsBlack: Math.min(value, values.levelsWhite - 1) });
+    else if (key === 'levelsWhite') onChange({ levelsWhite: Math.max(value, values.levelsBlack + 1) });
+    else onChange({ [key]: value });
+  };
+
+  const renderSlider = ({ key, label, min, max, step = 1, unit = '' }: Slider) => (
+    <div key={key}>
+      <div className="flex justify-between mb-1">
+        <label className={labelClass(key)}>{label}</label>
+        <span className="text-xs font-mono text-gray-400">{values[key]}{unit}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step} value={values[key]}
+        onChange={(e) => setValue(key, Number(e.target.value))}
+        className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {TONE_SLIDERS.map(renderSlider)}
+
+      {/* Levels */}
+      <label className={`flex items-center gap-2 cursor-pointer ${labelClass('autoLevels')}`}>
+        <input
+          type="checkbox"
+          checked={values.autoLevels}
+          onChange={(e) => onChange({ autoLevels: e.target.checked })}
+          className="accent-purple-600"
+        />
+        Auto levels (stretch each photo's histogram)
+      </label>
+      {!values.autoLevels && LEVELS_SLIDERS.map(renderSlider)}
+
+      {CORRECTION_SLIDERS.map(renderSlider)}
+      {values.sharpen > 0 && renderSlider(SHARPEN_RADIUS)}
+      {renderSlider(VIGNETTE)}
+    </div>
+  );
+};
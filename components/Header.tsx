@@ -1,7 +1,14 @@
 import React from 'react';
-import { Layers } from 'lucide-react';
+import { Layers, Stamp, ShieldCheck } from 'lucide-react';
 
-export const Header: React.FC = () => {
+export type AppView = 'watermark' | 'verify';
+
+interface HeaderProps {
+  view: AppView;
+  onViewChange: (view: AppView) => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ view, onViewChange }) => {
   return (
     <header className="w-full relative shadow-md">
       {/* Decorative Top Band (Maasai Beads Colors) */}
@@ -27,6 +34,24 @@ export const Header: React.FC = () => {
           </div>
         </div>
         
+        {/* Screen Switcher */}
+        <nav className="flex gap-1 bg-black/10 p-1 rounded-lg">
+          {([
+            { id: 'watermark', label: 'Watermark', icon: Stamp },
+            { id: 'verify', label: 'Verify', icon: ShieldCheck },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => onViewChange(id)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                view === id ? 'bg-white text-red-700 shadow-sm' : 'text-red-100 hover:bg-white/10'
+              }`}
+            >
+              <Icon size={16} /> {label}
+            </button>
+          ))}
+        </nav>
+
         {/* Simple decorative circle resembling beadwork */}
         <div className="hidden md:flex gap-1">
              {[...Array(5)].map((_, i) => (
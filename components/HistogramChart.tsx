@@ -0,0 +1,42 @@
+import React from 'react';
+import { Histogram } from '../types';
+
+const WIDTH = 256;
+const HEIGHT = 80;
+
+const CHANNELS: { key: keyof Histogram; fill: string }[] = [
+  { key: 'luminance', fill: 'rgba(156, 163, 175, 0.6)' },
+  { key: 'red', fill: 'rgba(239, 68, 68, 0.35)' },
+  { key: 'green', fill: 'rgba(34, 197, 94, 0.35)' },
+  { key: 'blue', fill: 'rgba(59, 130, 246, 0.35)' },
+];
+
+interface HistogramChartProps {
+  histogram: Histogram;
+}
+
+// RGB and luminance histogram. Scaled to the tallest bin between pure black
+// and white, so a clipped spike at either end doesn't flatten the rest.
+export const HistogramChart: React.FC<HistogramChartProps> = ({ histogram }) => {
+  const peak = Math.max(1, ...CHANNELS.flatMap(({ key }) => histogram[key].slice(1, 255)));
+  const total = histogram.luminance.reduce((sum, count) => sum + count, 0) || 1;
+  const clippedShadows = histogram.luminance[0] / total;
+  const clippedHighlights = histogram.luminance[255] / total;
+
+  const path = (counts: number[]) =>
+    `M0 ${HEIGHT} ` + counts.map((count, v) => `L${v} ${HEIGHT - Math.min(1, count / peak) * HEIGHT}`).join(' ') + ` L${WIDTH - 1} ${HEIGHT} Z`;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 rounded-md bg-gray-900">
+        {CHANNELS.map(({ key, fill }) => (
+          <path key={key} d={path(histogram[key])} fill={fill} />
+        ))}
+      </svg>
+      <div className="flex justify-between mt-1 text-[10px] font-mono text-gray-400">
+        <span className={clippedShadows > 0.01 ? 'text-red-500' : ''}>Black {(clippedShadows * 100).toFixed(1)}%</span>
+        <span className={clippedHighlights > 0.01 ? 'text-red-500' : ''}>White {(clippedHighlights * 100).toFixed(1)}%</span>
+      </div>
+    </div>
+  );
+};
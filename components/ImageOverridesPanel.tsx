@@ -0,0 +1,174 @@
+import React from 'react';
+import { WatermarkSettings, WatermarkLayer, AnchorPosition, ProcessedImage, ImageOverrides, LayerOverride, EnhancementSettings } from '../types';
+import { getEffectiveSettings, hasSettingOverrides, LAYER_SCALE_RANGE } from '../utils/settings';
+import { AnchorIcon } from './AnchorIcon';
+import { EnhancementSliders } from './EnhancementSliders';
+import { LayoutGrid, Sparkles, RotateCcw, X, SlidersHorizontal, Wand2, RefreshCw } from 'lucide-react';
+
+interface ImageOverridesPanelProps {
+  images: ProcessedImage[]; // The selected thumbnails
+  settings: WatermarkSettings; // Batch settings the overrides apply on top of
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string) => void;
+  onChange: (update: (overrides: ImageOverrides) => ImageOverrides) => void;
+  onReset: () => void;
+  onAutoAdjust: () => void; // Levels and white balance measured on each selected photo
+  autoAdjusting: boolean;
+  onClearSelection: () => void;
+}
+
+const POSITIONS: AnchorPosition[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'];
+
+// Edits settings for a few photos of the batch only. Values shown are those of
+// the first selected photo; every change is written to all of them.
+export const ImageOverridesPanel: React.FC<ImageOverridesPanelProps> = ({
+  images,
+  settings,
+  selectedLayerId,
+  onSelectLayer,
+  onChange,
+  onReset,
+  onAutoAdjust,
+  autoAdjusting,
+  onClearSelection,
+}) => {
+  const first = images[0];
+  const effective = getEffectiveSettings(settings, first.overrides);
+  const layer: WatermarkLayer | undefined = effective.layers.find(l => l.id === selectedLayerId) ?? effective.layers[0];
+  const layerOverride = layer ? first.overrides.layers?.[layer.id] ?? {} : {};
+  const skip = !!first.overrides.skipWatermark;
+
+  const updateLayer = <K extends keyof LayerOverride>(key: K, value: LayerOverride[K]) => {
+    if (!layer) return;
+    onChange(o => ({ ...o, layers: { ...o.layers, [layer.id]: { ...o.layers?.[layer.id], [key]: value } } }));
+  };
+
+  const updateSettings = (changes: Partial<EnhancementSettings>) => {
+    onChange(o => ({ ...o, settings: { ...o.settings, ...changes } }));
+  };
+
+  const labelClass = (overridden: boolean) =>
+    `text-xs font-medium ${overridden ? 'text-blue-600' : 'text-gray-500'}`;
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-blue-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal size={18} className="text-blue-600" />
+          {images.length === 1 ? `Settings for ${first.originalFile.name}` : `Settings for ${images.length} photos`}
+        </h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onReset}
+            disabled={!images.some(img => hasSettingOverrides(img.overrides))}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:border-red-300 hover:text-red-600 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <RotateCcw size={12} /> Reset to batch settings
+          </button>
+          <button onClick={onClearSelection} title="Clear selection" className="p-1 rounded-md text-gray-400 hover:text-gray-700">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Skip Watermark */}
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={skip}
+          onChange={(e) => onChange(o => ({ ...o, skipWatermark: e.target.checked || undefined }))}
+          className="accent-blue-600"
+        />
+        Skip watermark (export resized and enhanced only)
+      </label>
+
+      {/* Layer Placement */}
+      {layer && !skip && (
+        <div className="space-y-3">
+          {effective.layers.length > 1 && (
+            <select
+              value={layer.id}
+              onChange={(e) => onSelectLayer(e.target.value)}
+              className="w-full px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+            >
+              {effective.layers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          )}
+
+          <div>
+            <span className={labelClass(layerOverride.position !== undefined)}>Position</span>
+            <div className="flex gap-1 mt-1">
+              {POSITIONS.map((position) => (
+                <button
+                  key={position}
+                  onClick={() => updateLayer('position', position)}
+                  title={position.replace('-', ' ')}
+                  className={`flex-1 flex items-center justify-center p-2 rounded-lg border-2 transition-all ${
+                    layer.position === position ? 'border-blue-600 bg-blue-50 text-blue-600' : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                  }`}
+                >
+                  <AnchorIcon anchor={position} size={16} />
+                </button>
+              ))}
+              <button
+                onClick={() => updateLayer('position', 'tiled')}
+                title="tiled"
+                className={`flex-1 flex items-center justify-center p-2 rounded-lg border-2 transition-all ${
+                  layer.position === 'tiled' ? 'border-blue-600 bg-blue-50 text-blue-600' : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                }`}
+              >
+                <LayoutGrid size={16} />
+              </button>
+              <button
+                onClick={() => updateLayer('position', 'auto')}
+                title="auto (calmest spot)"
+                className={`flex-1 flex items-center justify-center p-2 rounded-lg border-2 transition-all ${
+                  layer.position === 'auto' ? 'border-blue-600 bg-blue-50 text-blue-600' : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                }`}
+              >
+                <Sparkles size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">Drag the mark in the preview for a custom spot.</p>
+          </div>
+
+          {([
+            { key: 'scale', label: 'Size', ...LAYER_SCALE_RANGE },
+            { key: 'opacity', label: 'Opacity', min: 0, max: 100 },
+          ] as const).map(({ key, label, min, max }) => (
+            <div key={key}>
+              <div className="flex justify-between mb-1">
+                <span className={labelClass(layerOverride[key] !== undefined)}>{label}</span>
+                <span className="text-xs font-mono text-gray-400">{layer[key]}%</span>
+              </div>
+              <input
+                type="range" min={min} max={max} value={layer[key]}
+                onChange={(e) => updateLayer(key, Number(e.target.value))}
+                className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Enhancements */}
+      <div className="space-y-3 border-t border-dashed border-gray-200 pt-3">
+        <button
+          onClick={onAutoAdjust}
+          disabled={autoAdjusting}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border-2 border-purple-200 text-sm font-medium text-purple-600 hover:bg-purple-50 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          {autoAdjusting ? <RefreshCw size={14} className="animate-spin" /> : <Wand2 size={14} />}
+          Auto levels &amp; white balance
+        </button>
+        <EnhancementSliders
+          values={effective}
+          onChange={updateSettings}
+          isOverridden={(key) => first.overrides.settings?.[key] !== undefined}
+        />
+      </div>
+
+      <p className="text-xs text-gray-400">Blue labels differ from the batch settings. Ctrl/Cmd-click or Shift-click thumbnails to change the selection.</p>
+    </div>
+  );
+};
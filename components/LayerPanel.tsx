@@ -0,0 +1,103 @@
+import React from 'react';
+import { WatermarkLayer, LogoAsset } from '../types';
+import { Image as ImageIcon, Type, Eye, EyeOff, ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+
+interface LayerPanelProps {
+  layers: WatermarkLayer[];
+  logos: LogoAsset[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (layers: WatermarkLayer[]) => void;
+  onAdd: (type: WatermarkLayer['type']) => void;
+}
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({ layers, logos, selectedId, onSelect, onChange, onAdd }) => {
+  const toggleVisible = (id: string) => {
+    onChange(layers.map(layer => layer.id === id ? { ...layer, visible: !layer.visible } : layer));
+  };
+
+  // Layers are stored bottom to top, so moving "up" means a higher index
+  const move = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => {
+    onChange(layers.filter(layer => layer.id !== id));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Layers</label>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onAdd('logo')}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:border-red-300 hover:text-red-600"
+          >
+            <Plus size={12} /> Logo
+          </button>
+          <button
+            onClick={() => onAdd('text')}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:border-red-300 hover:text-red-600"
+          >
+            <Plus size={12} /> Text
+          </button>
+        </div>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-xs text-gray-400 text-center py-4 border-2 border-dashed border-gray-200 rounded-lg">No layers yet. Add a logo or text layer.</p>
+      ) : (
+        <ul className="space-y-1">
+          {/* Topmost layer first, like most image editors */}
+          {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => {
+            const logo = logos.find(l => l.id === layer.logoId);
+            const detail = layer.type === 'text'
+              ? layer.text.content || 'Empty text'
+              : logo?.file.name ?? 'No logo selected';
+
+            return (
+              <li
+                key={layer.id}
+                onClick={() => onSelect(layer.id)}
+                className={`flex items-center gap-2 p-2 rounded-lg border-2 cursor-pointer transition-all ${
+                  selectedId === layer.id
+                    ? 'border-red-600 bg-red-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                } ${layer.visible ? '' : 'opacity-50'}`}
+              >
+                {layer.type === 'logo' ? (
+                  logo ? <img src={logo.previewUrl} alt="" className="w-6 h-6 object-contain" /> : <ImageIcon size={16} className="text-gray-400 mx-1" />
+                ) : (
+                  <Type size={16} className="text-gray-500 mx-1" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{layer.name}</p>
+                  <p className="text-xs text-gray-400 truncate">{detail}</p>
+                </div>
+                <div className="flex items-center text-gray-400" onClick={(e) => e.stopPropagation()}>
+                  <button onClick={() => toggleVisible(layer.id)} className="p-1 hover:text-gray-700" title={layer.visible ? 'Hide' : 'Show'}>
+                    {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === layers.length - 1} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move up">
+                    <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move down">
+                    <ChevronDown size={14} />
+                  </button>
+                  <button onClick={() => remove(layer.id)} className="p-1 hover:text-red-600" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { LogoAsset, LogoProcessing } from '../types';
+import { DEFAULT_LOGO_PROCESSING } from '../utils/logoProcessing';
+import { X } from 'lucide-react';
+
+interface LogoProcessingPanelProps {
+  logo: LogoAsset;
+  onChange: (changes: Partial<LogoProcessing>) => void;
+  onClose: () => void;
+}
+
+const COLOR_MODES: { id: LogoProcessing['colorMode']; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'tint', label: 'Tint' },
+  { id: 'white', label: 'White' },
+  { id: 'black', label: 'Black' },
+  { id: 'custom', label: 'Custom' },
+];
+
+// Clean-up options for one uploaded logo. The result replaces the logo in the
+// preview and the batch; the original upload is kept so changes are never lossy.
+export const LogoProcessingPanel: React.FC<LogoProcessingPanelProps> = ({ logo, onChange, onClose }) => {
+  const { processing } = logo;
+
+  return (
+    <div className="rounded-xl border-2 border-red-100 p-3 mb-3 space-y-3">
+      <div className="flex items-center gap-3">
+        {/* Checkerboard shows what became transparent */}
+        <div
+          className="w-16 h-16 rounded-lg flex items-center justify-center flex-shrink-0"
+          style={{ backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%)', backgroundSize: '12px 12px' }}
+        >
+          <img src={logo.previewUrl} alt="Processed logo" className="max-w-full max-h-full object-contain" />
+        </div>
+        <p className="flex-1 min-w-0 text-xs font-medium text-gray-600 truncate">{logo.original.name}</p>
+        <button onClick={onClose} title="Close" className="p-1 text-gray-400 hover:text-gray-700"><X size={16} /></button>
+      </div>
+
+      {/* Background Removal */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs font-medium text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={processing.removeBackground}
+            onChange={(e) => onChange({ removeBackground: e.target.checked })}
+            className="accent-red-600"
+          />
+          Remove background
+          <input
+            type="color"
+            value={processing.backgroundColor}
+            onChange={(e) => onChange({ backgroundColor: e.target.value, removeBackground: true })}
+            title="Background color"
+            className="ml-auto w-8 h-6 rounded border border-gray-200 cursor-pointer"
+          />
+        </label>
+        {processing.removeBackground && (
+          <div>
+            <div className="flex justify-between mb-1">
+              <span className="text-xs text-gray-500">Tolerance</span>
+              <span className="text-xs font-mono text-gray-400">{processing.tolerance}%</span>
+            </div>
+            <input
+              type="range" min="0" max="60" value={processing.tolerance}
+              onChange={(e) => onChange({ tolerance: Number(e.target.value) })}
+              className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Recolor / Tint */}
+      <div className="space-y-2">
+        <div className="grid grid-cols-5 gap-1">
+          {COLOR_MODES.map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => onChange({ colorMode: mode.id })}
+              className={`py-1 rounded-md border-2 text-[11px] font-medium transition-all ${
+                processing.colorMode === mode.id ? 'border-red-600 bg-red-50 text-red-600' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {(processing.colorMode === 'tint' || processing.colorMode === 'custom') && (
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={processing.color}
+              onChange={(e) => onChange({ color: e.target.value })}
+              className="w-8 h-6 rounded border border-gray-200 cursor-pointer"
+            />
+            {processing.colorMode === 'tint' && (
+              <input
+                type="range" min="0" max="100" value={processing.tintStrength}
+                onChange={(e) => onChange({ tintStrength: Number(e.target.value) })}
+                title={`Tint strength ${processing.tintStrength}%`}
+                className="flex-1 h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...DEFAULT_LOGO_PROCESSING, backgroundColor: processing.backgroundColor })}
+        className="text-xs text-red-500 hover:text-red-700 font-medium"
+      >
+        Reset to original
+      </button>
+    </div>
+  );
+};
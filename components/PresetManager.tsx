@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WatermarkSettings } from '../types';
+import { SettingsPreset, loadPresets, savePresets, exportPresets, parsePresetFile, getUniquePresetName } from '../utils/presets';
+import { Plus, Pencil, Trash2, Save, Check, X, Upload, Download } from 'lucide-react';
+
+interface PresetManagerProps {
+  settings: WatermarkSettings;
+  onApply: (settings: WatermarkSettings) => void;
+  onActiveChange?: (name: string | null) => void; // The selected preset, for the {preset} filename token; keep it stable (a state setter or useCallback)
+}
+
+// Library of named settings (e.g. "Client proofs", "Instagram") kept in
+// localStorage and shared between machines as exported JSON files
+export const PresetManager: React.FC<PresetManagerProps> = ({ settings, onApply, onActiveChange }) => {
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [justSaved, setJustSaved] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = presets.find(preset => preset.id === activeId) ?? null;
+
+  useEffect(() => {
+    onActiveChange?.(active?.name ?? null);
+  }, [active?.name, onActiveChange]);
+
+  const commit = (next: SettingsPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const selectPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    setActiveId(preset?.id ?? null);
+    if (preset) onApply(preset.settings);
+  };
+
+  const startEditing = (mode: 'new' | 'rename') => {
+    setEditing(mode);
+    setNameDraft(mode === 'rename' && active ? active.name : '');
+  };
+
+  const finishEditing = () => {
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (editing === 'new') {
+      const preset = { id: crypto.randomUUID(), name: getUniquePresetName(name, presets), settings };
+      commit([...presets, preset]);
+      setActiveId(preset.id);
+    } else if (editing === 'rename' && active) {
+      const others = presets.filter(p => p.id !== active.id);
+      commit(presets.map(p => p.id === active.id ? { ...p, name: getUniquePresetName(name, others) } : p));
+    }
+    setEditing(null);
+  };
+
+  const overwriteActive = () => {
+    if (!active) return;
+    commit(presets.map(p => p.id === active.id ? { ...p, settings } : p));
+    setJustSaved(true);
+    setTimeout(() => setJustSaved(false), 2000);
+  };
+
+  const deleteActive = () => {
+    if (!active || !window.confirm(`Delete the preset "${active.name}"?`)) return;
+    commit(presets.filter(p => p.id !== active.id));
+    setActiveId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      const next = [...presets];
+      for (const preset of imported) {
+        next.push({ ...preset, name: getUniquePresetName(preset.name, next) });
+      }
+      commit(next);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import presets.');
+    }
+  };
+
+  const iconButton = 'p-2 rounded-lg border-2 border-gray-200 text-gray-500 hover:border-gray-300 hover:text-gray-700 disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Presets</label>
+        <div className="flex gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:border-red-300 hover:text-red-600"
+          >
+            <Upload size={12} /> Import
+          </button>
+          <button
+            onClick={() => exportPresets(presets)}
+            disabled={presets.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:border-red-300 hover:text-red-600 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Download size={12} /> Export
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            type="text"
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishEditing();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            placeholder="Preset name, e.g. Client proofs"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-red-600 outline-none text-sm"
+          />
+          <button onClick={finishEditing} disabled={!nameDraft.trim()} title="Save name" className={iconButton}><Check size={16} /></button>
+          <button onClick={() => setEditing(null)} title="Cancel" className={iconButton}><X size={16} /></button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <select
+            value={activeId ?? ''}
+            onChange={(e) => selectPreset(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+          >
+            <option value="">{presets.length === 0 ? 'No presets yet' : 'Choose a preset…'}</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <button onClick={() => startEditing('new')} title="Save current settings as a new preset" className={iconButton}><Plus size={16} /></button>
+          <button onClick={overwriteActive} disabled={!active} title="Update preset with current settings" className={iconButton}>
+            {justSaved ? <Check size={16} className="text-green-600" /> : <Save size={16} />}
+          </button>
+          <button onClick={() => startEditing('rename')} disabled={!active} title="Rename preset" className={iconButton}><Pencil size={16} /></button>
+          <button onClick={deleteActive} disabled={!active} title="Delete preset" className={iconButton}><Trash2 size={16} /></button>
+        </div>
+      )}
+
+      {importError && <p className="text-xs text-red-600 mt-2">{importError}</p>}
+    </div>
+  );
+};
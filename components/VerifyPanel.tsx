@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ImageUploader } from './ImageUploader';
+import { detectInvisibleMark, readImageForVerification, MarkDetection } from '../utils/invisibleMark';
+import { ShieldCheck, ShieldX, AlertCircle, Loader2, Trash2 } from 'lucide-react';
+
+interface VerifyPanelProps {
+  ownerId: string; // Starts out as the ID from the watermark settings
+}
+
+interface CheckedImage {
+  id: string;
+  name: string;
+  previewUrl: string;
+  pixels: ImageData | null;
+  error: string | null;
+}
+
+const formatConfidence = (detection: MarkDetection) =>
+  detection.confidence >= 0.9999 ? '> 99.99%' : `${(detection.confidence * 100).toFixed(2)}%`;
+
+// Checks dropped images (including re-saved or downscaled copies found
+// elsewhere) for the invisible owner ID embedded at export
+export const VerifyPanel: React.FC<VerifyPanelProps> = ({ ownerId: initialOwnerId }) => {
+  const [ownerId, setOwnerId] = useState(initialOwnerId);
+  const [checked, setChecked] = useState<CheckedImage[]>([]);
+  const [isReading, setIsReading] = useState(false);
+
+  const handleFiles = async (files: File[]) => {
+    setIsReading(true);
+    const added: CheckedImage[] = [];
+    for (const file of files.filter(f => f.type.startsWith('image/'))) {
+      const entry: CheckedImage = { id: crypto.randomUUID(), name: file.name, previewUrl: URL.createObjectURL(file), pixels: null, error: null };
+      try {
+        entry.pixels = await readImageForVerification(file);
+      } catch (e) {
+        entry.error = e instanceof Error ? e.message : 'Could not read this image.';
+      }
+      added.push(entry);
+    }
+    setChecked(prev => [...added, ...prev]);
+    setIsReading(false);
+  };
+
+  const clearAll = () => {
+    checked.forEach(img => URL.revokeObjectURL(img.previewUrl));
+    setChecked([]);
+  };
+
+  const trimmedId = ownerId.trim();
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 space-y-6">
+      <div>
+        <h2 className="text-lg font-bold text-gray-800 mb-1 flex items-center">
+          <span className="w-2 h-6 bg-blue-600 rounded-full mr-2"></span>
+          Verify Invisible Watermark
+        </h2>
+        <p className="text-sm text-gray-500">
+          Drop any image to check whether it carries your owner ID. Re-saved, recompressed and downscaled copies are still recognized; heavy crops and edits are not.
+        </p>
+      </div>
+
+      {/* Owner ID */}
+      <div>
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Owner ID</label>
+        <input
+          type="text"
+          value={ownerId}
+          onChange={(e) => setOwnerId(e.target.value)}
+          placeholder="The ID used when exporting, e.g. studio-name-2025"
+          className="mt-1 w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-600 outline-none text-sm"
+        />
+      </div>
+
+      <ImageUploader onFilesSelected={handleFiles} colorTheme="blue" label="Drop Images to Verify" compact />
+
+      {isReading && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 size={16} className="animate-spin" /> Reading images…
+        </p>
+      )}
+
+      {/* Results */}
+      {checked.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Results</span>
+            <button onClick={clearAll} className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-red-600">
+              <Trash2 size={12} /> Clear
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {checked.map((img) => {
+              const detection = img.pixels && trimmedId ? detectInvisibleMark(img.pixels, trimmedId) : null;
+              return (
+                <li key={img.id} className="flex items-center gap-3 p-3">
+                  <img src={img.previewUrl} alt={img.name} className="w-14 h-14 rounded-lg object-cover bg-gray-100 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">{img.name}</p>
+                    {img.error ? (
+                      <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {img.error}</p>
+                    ) : !detection ? (
+                      <p className="text-xs text-gray-500">Enter an owner ID to check this image.</p>
+                    ) : detection.detected ? (
+                      <p className="text-xs text-green-700 flex items-center gap-1">
+                        <ShieldCheck size={14} /> Owner ID detected · confidence {formatConfidence(detection)}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-600 flex items-center gap-1">
+                        <ShieldX size={14} /> Not detected
+                      </p>
+                    )}
+                  </div>
+                  {detection && (
+                    <span className="text-xs font-mono text-gray-400" title="Correlation score; 4 or more counts as a match">
+                      z = {detection.score.toFixed(1)}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
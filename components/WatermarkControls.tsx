@@ -1,31 +1,140 @@
-
 import React, { useState } from 'react';
-import { WatermarkSettings } from '../types';
-import { AlignCenter, AlignLeft, AlignRight, LayoutGrid, ArrowUpLeft, ArrowDownRight, ArrowUpRight, ArrowDownLeft, FileType, Check, Wand2, Save } from 'lucide-react';
+import { WatermarkSettings, WatermarkLayer, BlendMode, TextWatermarkSettings, TileSettings, ResizeSettings, RightsMetadata, InvisibleMarkSettings, LogoAsset, FrameSettings, CaptionSettings, EnhancementSettings, Histogram } from '../types';
+import { createLayer, linkWaitingLogos, BLEND_MODES, NEUTRAL_ENHANCEMENTS, LAYER_SCALE_RANGE } from '../utils/settings';
+import { SIZE_PRESETS, computeOutputLayout } from '../utils/resize';
+import { getOutputFileName } from '../utils/download';
+import { LayerPanel } from './LayerPanel';
+import { PresetManager } from './PresetManager';
+import { AnchorIcon } from './AnchorIcon';
+import { EnhancementSliders } from './EnhancementSliders';
+import { EffectControls, EffectOption } from './EffectControls';
+import { HistogramChart } from './HistogramChart';
+import { AUTO_ANCHORS } from '../utils/placement';
+import { AlignCenter, AlignLeft, AlignRight, LayoutGrid, ArrowUpLeft, ArrowDownRight, ArrowUpRight, ArrowDownLeft, FileType, Check, Wand2, Save, Sparkles, Frame } from 'lucide-react';
+
+const FONT_FAMILIES = ['Space Grotesk', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana', 'Impact'];
+
+const FONT_WEIGHTS = [
+    { value: 300, label: 'Light' },
+    { value: 400, label: 'Regular' },
+    { value: 500, label: 'Medium' },
+    { value: 700, label: 'Bold' },
+];
+
+const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+    normal: 'Normal',
+    multiply: 'Multiply',
+    screen: 'Screen',
+    overlay: 'Overlay',
+    'soft-light': 'Soft Light',
+    difference: 'Difference',
+};
+
+const EFFECTS: { [K in 'shadow' | 'outline' | 'glow' | 'emboss']: EffectOption<WatermarkLayer[K]> } = {
+    shadow: { label: 'Drop Shadow', sliders: [
+        { key: 'opacity', label: 'Opacity', min: 0, max: 100, step: 1, unit: '%' },
+        { key: 'blur', label: 'Blur', min: 0, max: 5, step: 0.1, unit: '%' },
+        { key: 'distance', label: 'Distance', min: 0, max: 5, step: 0.1, unit: '%' },
+        { key: 'angle', label: 'Angle', min: 0, max: 360, step: 1, unit: '°' },
+    ] },
+    outline: { label: 'Outline', sliders: [
+        { key: 'width', label: 'Width', min: 0.05, max: 2, step: 0.05, unit: '%' },
+    ] },
+    glow: { label: 'Outer Glow', sliders: [
+        { key: 'opacity', label: 'Opacity', min: 0, max: 100, step: 1, unit: '%' },
+        { key: 'size', label: 'Size', min: 0.1, max: 5, step: 0.1, unit: '%' },
+    ] },
+    emboss: { label: 'Emboss', sliders: [
+        { key: 'depth', label: 'Depth', min: 0.05, max: 1, step: 0.05, unit: '%' },
+    ] },
+};
 
 interface WatermarkControlsProps {
   settings: WatermarkSettings;
+  logos: LogoAsset[];
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string) => void;
   onChange: (settings: WatermarkSettings) => void;
   onSave: () => void;
+  presetName: string | null;
+  onPresetChange: (name: string | null) => void;
+  histogram: Histogram | null; // Of the previewed photo
   disabled?: boolean;
 }
 
-export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ settings, onChange, onSave, disabled }) => {
+export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ settings, logos, selectedLayerId, onSelectLayer, onChange, onSave, presetName, onPresetChange, histogram, disabled }) => {
   const [justSaved, setJustSaved] = useState(false);
+
+  // Fall back to the topmost layer when nothing (or a deleted layer) is selected
+  const layer = settings.layers.find(l => l.id === selectedLayerId) ?? settings.layers[settings.layers.length - 1];
   
   const update = (key: keyof WatermarkSettings, value: any) => {
     onChange({ ...settings, [key]: value });
   };
 
+  const updateLayer = (key: keyof WatermarkLayer, value: any) => {
+    onChange({ ...settings, layers: settings.layers.map(l => l.id === layer.id ? { ...l, [key]: value } : l) });
+  };
+
+  const updateText = (key: keyof TextWatermarkSettings, value: any) => {
+    updateLayer('text', { ...layer.text, [key]: value });
+  };
+
+  const updateTile = (key: keyof TileSettings, value: number) => {
+    updateLayer('tile', { ...layer.tile, [key]: value });
+  };
+
+  const updateResize = (changes: Partial<ResizeSettings>) => {
+    update('resize', { ...settings.resize, ...changes });
+  };
+
+  const updateFrame = (changes: Partial<FrameSettings>) => {
+    update('frame', { ...settings.frame, ...changes });
+  };
+
+  const updateCaption = (changes: Partial<CaptionSettings>) => {
+    updateFrame({ caption: { ...settings.frame.caption, ...changes } });
+  };
+
+  const updateMetadata = (key: keyof RightsMetadata, value: string) => {
+    update('metadata', { ...settings.metadata, [key]: value });
+  };
+
+  const updateInvisibleMark = (changes: Partial<InvisibleMarkSettings>) => {
+    update('invisibleMark', { ...settings.invisibleMark, ...changes });
+  };
+
+  const addLayer = (type: WatermarkLayer['type']) => {
+    const newLayer = createLayer(type, type === 'logo' ? logos[0]?.id ?? null : null);
+    onChange({ ...settings, layers: [...settings.layers, newLayer] });
+    onSelectLayer(newLayer.id);
+  };
+
+  // Presets made elsewhere reference logos that aren't loaded here; use the current ones instead
+  const applyPreset = (preset: WatermarkSettings) => {
+    onChange({ ...preset, layers: linkWaitingLogos(preset.layers, logos, new Set(logos.map(l => l.id))) });
+  };
+
+  // Live example for the filename template: a 6000×4000 camera file
+  const exampleLayout = computeOutputLayout(6000, 4000, settings.resize, settings.frame);
+  const exampleFileName = getOutputFileName(settings.fileNameTemplate, {
+    originalName: 'DSC_0042.jpg',
+    index: 42,
+    total: 120,
+    date: new Date(),
+    width: exampleLayout.width,
+    height: exampleLayout.height,
+    preset: presetName ?? '',
+    format: settings.outputFormat,
+  });
+
   const resetEnhancements = () => {
-      onChange({
-          ...settings,
-          brightness: 100,
-          contrast: 100,
-          saturation: 100
-      });
+      onChange({ ...settings, ...NEUTRAL_ENHANCEMENTS });
   };
 
+  const hasEnhancements = (Object.keys(NEUTRAL_ENHANCEMENTS) as (keyof EnhancementSettings)[])
+      .some(key => settings[key] !== NEUTRAL_ENHANCEMENTS[key]);
+
   const handleSave = () => {
       onSave();
       setJustSaved(true);
@@ -35,82 +144,337 @@ export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ settings,
   return (
     <div className={`space-y-6 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
       
-      {/* Position Grid */}
-      <div>
-        <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Position</label>
-        <div className="grid grid-cols-3 gap-2">
-            {[
-                { id: 'top-left', icon: ArrowUpLeft },
-                { id: 'top-right', icon: ArrowUpRight },
-                { id: 'tiled', icon: LayoutGrid },
-                { id: 'center', icon: AlignCenter },
-                { id: 'bottom-left', icon: ArrowDownLeft },
-                { id: 'bottom-right', icon: ArrowDownRight },
-            ].map((pos) => (
-                <button
-                    key={pos.id}
-                    onClick={() => update('position', pos.id)}
-                    className={`flex items-center justify-center p-3 rounded-lg border-2 transition-all ${
-                        settings.position === pos.id 
-                        ? 'border-red-600 bg-red-50 text-red-600' 
-                        : 'border-gray-200 hover:border-gray-300 text-gray-500'
-                    }`}
-                    title={pos.id.replace('-', ' ')}
-                >
-                    <pos.icon size={20} />
-                </button>
-            ))}
-        </div>
-      </div>
+      {/* Preset Library */}
+      <PresetManager settings={settings} onApply={applyPreset} onActiveChange={onPresetChange} />
 
-      {/* Scale Slider */}
-      <div>
-        <div className="flex justify-between mb-2">
-            <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Size</label>
-            <span className="text-sm font-mono text-gray-500">{settings.scale}%</span>
-        </div>
-        <input 
-            type="range" 
-            min="5" 
-            max="100" 
-            value={settings.scale} 
-            onChange={(e) => update('scale', Number(e.target.value))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
-        />
-      </div>
+      {/* Layer List */}
+      <LayerPanel
+        layers={settings.layers}
+        logos={logos}
+        selectedId={layer?.id ?? null}
+        onSelect={onSelectLayer}
+        onChange={(layers) => update('layers', layers)}
+        onAdd={addLayer}
+      />
 
-      {/* Opacity Slider */}
-      <div>
-        <div className="flex justify-between mb-2">
-            <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Opacity</label>
-            <span className="text-sm font-mono text-gray-500">{settings.opacity}%</span>
-        </div>
-        <input 
-            type="range" 
-            min="0" 
-            max="100" 
-            value={settings.opacity} 
-            onChange={(e) => update('opacity', Number(e.target.value))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-        />
-      </div>
+      {layer && (
+        <div className="space-y-6 border-l-4 border-red-100 pl-4">
+          {/* Layer Name */}
+          <input
+              type="text"
+              value={layer.name}
+              onChange={(e) => updateLayer('name', e.target.value)}
+              className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-red-600 outline-none text-sm font-medium"
+          />
+
+          {/* Logo Source */}
+          {layer.type === 'logo' && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Logo</label>
+              {logos.length === 0 ? (
+                  <p className="text-xs text-gray-400">Upload a logo above to use it in this layer.</p>
+              ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                      {logos.map((logo) => (
+                          <button
+                              key={logo.id}
+                              onClick={() => updateLayer('logoId', logo.id)}
+                              className={`p-1 rounded-lg border-2 transition-all ${
+                                  layer.logoId === logo.id
+                                  ? 'border-red-600 bg-red-50'
+                                  : 'border-gray-200 hover:border-gray-300'
+                              }`}
+                              title={logo.file.name}
+                          >
+                              <img src={logo.previewUrl} alt={logo.file.name} className="h-10 w-full object-contain" />
+                          </button>
+                      ))}
+                  </div>
+              )}
+
+              {/* Adaptive Contrast */}
+              <div className="mt-3 space-y-2">
+                  <label className="flex items-center gap-2 text-xs font-medium text-gray-600 px-1 cursor-pointer">
+                      <input
+                          type="checkbox"
+                          checked={layer.adaptive}
+                          onChange={(e) => updateLayer('adaptive', e.target.checked)}
+                          className="accent-red-600"
+                      />
+                      Adaptive contrast (light logo on dark photos, dark on bright)
+                  </label>
+                  {layer.adaptive && (
+                      <div className="grid grid-cols-2 gap-2">
+                          {[
+                              { key: 'lightLogoId' as const, label: 'On dark photos', generated: 'Generated white' },
+                              { key: 'darkLogoId' as const, label: 'On bright photos', generated: 'Generated black' },
+                          ].map((variant) => (
+                              <label key={variant.key} className="block">
+                                  <span className="block text-xs font-medium text-gray-500 mb-1">{variant.label}</span>
+                                  <select
+                                      value={logos.some(l => l.id === layer[variant.key]) ? layer[variant.key]! : ''}
+                                      onChange={(e) => updateLayer(variant.key, e.target.value || null)}
+                                      className="w-full px-2 py-2 rounded-lg border-2 border-gray-200 text-xs bg-white"
+                                  >
+                                      <option value="">{variant.generated}</option>
+                                      {logos.map((logo) => (
+                                          <option key={logo.id} value={logo.id}>{logo.file.name}</option>
+                                      ))}
+                                  </select>
+                              </label>
+                          ))}
+                      </div>
+                  )}
+              </div>
+            </div>
+          )}
+
+          {/* Text Content & Style */}
+          {layer.type === 'text' && (
+            <div className="space-y-4">
+                <input
+                    type="text"
+                    value={layer.text.content}
+                    onChange={(e) => updateText('content', e.target.value)}
+                    placeholder={`© Your Name ${new Date().getFullYear()}`}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-red-600 outline-none text-sm"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    <select
+                        value={layer.text.fontFamily}
+                        onChange={(e) => updateText('fontFamily', e.target.value)}
+                        className="px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+                    >
+                        {FONT_FAMILIES.map((font) => (
+                            <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={layer.text.fontWeight}
+                        onChange={(e) => updateText('fontWeight', Number(e.target.value))}
+                        className="px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+                    >
+                        {FONT_WEIGHTS.map((weight) => (
+                            <option key={weight.value} value={weight.value}>{weight.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                        Color
+                        <input type="color" value={layer.text.color} onChange={(e) => updateText('color', e.target.value)} className="w-8 h-6 cursor-pointer bg-transparent" />
+                    </label>
+                    <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                        Outline
+                        <input type="color" value={layer.text.strokeColor} onChange={(e) => updateText('strokeColor', e.target.value)} className="w-8 h-6 cursor-pointer bg-transparent" />
+                    </label>
+                </div>
 
-      {/* Margin Slider */}
-      <div className={settings.position === 'tiled' ? 'opacity-30 pointer-events-none' : ''}>
-        <div className="flex justify-between mb-2">
-            <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Margin</label>
-            <span className="text-sm font-mono text-gray-500">{settings.margin}%</span>
+                {/* Outline Width */}
+                <div>
+                    <div className="flex justify-between mb-1">
+                        <label className="text-xs font-medium text-gray-500">Outline Width</label>
+                        <span className="text-xs font-mono text-gray-400">{layer.text.strokeWidth}%</span>
+                    </div>
+                    <input 
+                        type="range" min="0" max="20" value={layer.text.strokeWidth} 
+                        onChange={(e) => updateText('strokeWidth', Number(e.target.value))}
+                        className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+                    />
+                </div>
+
+                {/* Letter Spacing */}
+                <div>
+                    <div className="flex justify-between mb-1">
+                        <label className="text-xs font-medium text-gray-500">Letter Spacing</label>
+                        <span className="text-xs font-mono text-gray-400">{layer.text.letterSpacing}%</span>
+                    </div>
+                    <input 
+                        type="range" min="-10" max="100" value={layer.text.letterSpacing} 
+                        onChange={(e) => updateText('letterSpacing', Number(e.target.value))}
+                        className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+                    />
+                </div>
+            </div>
+          )}
+
+          {/* Position Grid */}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Position</label>
+            <div className="grid grid-cols-3 gap-2">
+                {[
+                    { id: 'top-left', icon: ArrowUpLeft },
+                    { id: 'top-right', icon: ArrowUpRight },
+                    { id: 'tiled', icon: LayoutGrid },
+                    { id: 'center', icon: AlignCenter },
+                    { id: 'bottom-left', icon: ArrowDownLeft },
+                    { id: 'bottom-right', icon: ArrowDownRight },
+                ].map((pos) => (
+                    <button
+                        key={pos.id}
+                        onClick={() => updateLayer('position', pos.id)}
+                        className={`flex items-center justify-center p-3 rounded-lg border-2 transition-all ${
+                            layer.position === pos.id 
+                            ? 'border-red-600 bg-red-50 text-red-600' 
+                            : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                        }`}
+                        title={pos.id.replace('-', ' ')}
+                    >
+                        <pos.icon size={20} />
+                    </button>
+                ))}
+            </div>
+            <button
+                onClick={() => updateLayer('position', 'auto')}
+                className={`w-full flex items-center justify-center gap-2 mt-2 p-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                    layer.position === 'auto'
+                    ? 'border-red-600 bg-red-50 text-red-600'
+                    : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                }`}
+            >
+                <Sparkles size={16} /> Auto (calmest spot)
+            </button>
+            {layer.position === 'auto' && (
+                <div className="mt-3">
+                    <p className="text-xs font-medium text-gray-500 mb-2">Allowed spots</p>
+                    <div className="grid grid-cols-5 gap-1">
+                        {AUTO_ANCHORS.map((anchor) => {
+                            const allowed = layer.autoAnchors.includes(anchor);
+                            return (
+                                <button
+                                    key={anchor}
+                                    onClick={() => {
+                                        const next = allowed ? layer.autoAnchors.filter(a => a !== anchor) : [...layer.autoAnchors, anchor];
+                                        if (next.length > 0) updateLayer('autoAnchors', next);
+                                    }}
+                                    className={`flex items-center justify-center p-2 rounded-lg border-2 transition-all ${
+                                        allowed
+                                        ? 'border-red-600 bg-red-50 text-red-600'
+                                        : 'border-gray-200 hover:border-gray-300 text-gray-400'
+                                    }`}
+                                    title={anchor.replace('-', ' ')}
+                                >
+                                    <AnchorIcon anchor={anchor} />
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+            {layer.position !== 'tiled' && (
+                <p className="text-xs text-gray-400 mt-2">
+                    {layer.position === 'custom'
+                        ? `Custom placement (${Math.round(layer.x * 100)}%, ${Math.round(layer.y * 100)}%). Pick an anchor to snap back.`
+                        : layer.position === 'auto'
+                        ? 'Each photo gets the allowed spot with the least detail behind the layer.'
+                        : 'Drag the layer on the preview to place it freely.'}
+                </p>
+            )}
+          </div>
+
+          {/* Tiling Options (only for tiled layers) */}
+          {layer.position === 'tiled' && (
+            <div className="space-y-4">
+                {[
+                    { key: 'angle' as const, label: 'Angle', min: -90, max: 90, unit: '°' },
+                    { key: 'spacingX' as const, label: 'Horizontal Spacing', min: 0, max: 300, unit: '%' },
+                    { key: 'spacingY' as const, label: 'Vertical Spacing', min: 0, max: 300, unit: '%' },
+                    { key: 'stagger' as const, label: 'Row Stagger', min: 0, max: 100, unit: '%' },
+                ].map((option) => (
+                    <div key={option.key}>
+                        <div className="flex justify-between mb-1">
+                            <label className="text-xs font-medium text-gray-500">{option.label}</label>
+                            <span className="text-xs font-mono text-gray-400">{layer.tile[option.key]}{option.unit}</span>
+                        </div>
+                        <input 
+                            type="range" min={option.min} max={option.max} value={layer.tile[option.key]} 
+                            onChange={(e) => updateTile(option.key, Number(e.target.value))}
+                            className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+                        />
+                    </div>
+                ))}
+            </div>
+          )}
+
+          {/* Scale Slider */}
+          <div>
+            <div className="flex justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Size</label>
+                <span className="text-sm font-mono text-gray-500">{layer.scale}%</span>
+            </div>
+            <input 
+                type="range" 
+                min={LAYER_SCALE_RANGE.min} 
+                max={LAYER_SCALE_RANGE.max} 
+                value={layer.scale} 
+                onChange={(e) => updateLayer('scale', Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-red-600"
+            />
+          </div>
+
+          {/* Opacity Slider */}
+          <div>
+            <div className="flex justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Opacity</label>
+                <span className="text-sm font-mono text-gray-500">{layer.opacity}%</span>
+            </div>
+            <input 
+                type="range" 
+                min="0" 
+                max="100" 
+                value={layer.opacity} 
+                onChange={(e) => updateLayer('opacity', Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          {/* Margin Slider */}
+          <div className={layer.position === 'tiled' || layer.position === 'custom' ? 'opacity-30 pointer-events-none' : ''}>
+            <div className="flex justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Margin</label>
+                <span className="text-sm font-mono text-gray-500">{layer.margin}%</span>
+            </div>
+            <input 
+                type="range" 
+                min="0" 
+                max="20" 
+                value={layer.margin} 
+                onChange={(e) => updateLayer('margin', Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+            />
+          </div>
+
+          {/* Style: Blend Mode & Effects */}
+          <div className="border-t border-dashed border-gray-200 pt-4 space-y-3">
+              <label className="block text-sm font-semibold text-gray-700 uppercase tracking-wider">Style</label>
+
+              <div>
+                  <label className="text-xs font-medium text-gray-500">Blend Mode</label>
+                  <div className="grid grid-cols-3 gap-1 mt-1">
+                      {BLEND_MODES.map((mode) => (
+                          <button
+                              key={mode}
+                              onClick={() => updateLayer('blendMode', mode)}
+                              className={`py-1.5 rounded-md border-2 text-xs font-medium transition-all ${
+                                  layer.blendMode === mode ? 'border-gray-800 bg-gray-50 text-gray-900' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+                              }`}
+                          >
+                              {BLEND_MODE_LABELS[mode]}
+                          </button>
+                      ))}
+                  </div>
+              </div>
+
+              <EffectControls option={EFFECTS.shadow} values={layer.shadow} onChange={(values) => updateLayer('shadow', values)} />
+              <EffectControls option={EFFECTS.outline} values={layer.outline} onChange={(values) => updateLayer('outline', values)} />
+              <EffectControls option={EFFECTS.glow} values={layer.glow} onChange={(values) => updateLayer('glow', values)} />
+              <EffectControls option={EFFECTS.emboss} values={layer.emboss} onChange={(values) => updateLayer('emboss', values)} />
+              <p className="text-xs text-gray-400">Effect sizes are % of the photo's long edge.</p>
+          </div>
         </div>
-        <input 
-            type="range" 
-            min="0" 
-            max="20" 
-            value={settings.margin} 
-            onChange={(e) => update('margin', Number(e.target.value))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
-        />
-      </div>
-      
+      )}
+
       {/* Enhancements Section */}
       <div className="border-t border-dashed border-gray-200 pt-4">
         <div className="flex items-center justify-between mb-3">
@@ -118,69 +482,314 @@ export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ settings,
                 <Wand2 size={16} className="text-purple-600" /> 
                 Enhancements
              </label>
-             {(settings.brightness !== 100 || settings.contrast !== 100 || settings.saturation !== 100) && (
+             {hasEnhancements && (
                  <button onClick={resetEnhancements} className="text-xs text-red-500 hover:text-red-700 font-medium">Reset</button>
              )}
         </div>
         
-        <div className="space-y-4">
-            {/* Brightness */}
-            <div>
-                <div className="flex justify-between mb-1">
-                    <label className="text-xs font-medium text-gray-500">Brightness</label>
-                    <span className="text-xs font-mono text-gray-400">{settings.brightness}%</span>
-                </div>
-                <input 
-                    type="range" min="50" max="150" value={settings.brightness} 
-                    onChange={(e) => update('brightness', Number(e.target.value))}
-                    className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-                />
+        {/* Histogram of the previewed photo */}
+        {histogram && (
+            <div className="mb-4">
+                <HistogramChart histogram={histogram} />
             </div>
+        )}
 
-            {/* Contrast */}
-            <div>
-                <div className="flex justify-between mb-1">
-                    <label className="text-xs font-medium text-gray-500">Contrast</label>
-                    <span className="text-xs font-mono text-gray-400">{settings.contrast}%</span>
-                </div>
-                <input 
-                    type="range" min="50" max="150" value={settings.contrast} 
-                    onChange={(e) => update('contrast', Number(e.target.value))}
-                    className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-                />
+        <EnhancementSliders values={settings} onChange={(changes) => onChange({ ...settings, ...changes })} />
+        <p className="text-xs text-gray-400 mt-3">Use Auto in a photo's own settings for its levels and white balance.</p>
+      </div>
+
+      {/* Frame & Caption */}
+      <div className="space-y-2">
+        <button
+            onClick={() => updateFrame({ enabled: !settings.frame.enabled })}
+            className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+                settings.frame.enabled
+                ? 'border-blue-600 bg-blue-50 text-blue-600'
+                : 'border-gray-200 text-gray-500 hover:border-gray-300'
+            }`}
+        >
+            <span className="flex items-center gap-2 font-medium text-sm"><Frame size={16} /> Frame &amp; Caption</span>
+            <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${settings.frame.enabled ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 bg-white'}`}>
+                {settings.frame.enabled && <Check size={14} />}
             </div>
+        </button>
+        {settings.frame.enabled && (
+            <div className="space-y-3 px-1">
+                {/* Border */}
+                <div>
+                    <div className="flex justify-between mb-1">
+                        <label className="text-xs font-medium text-gray-500">Border</label>
+                        <span className="text-xs font-mono text-gray-400">{settings.frame.border}%</span>
+                    </div>
+                    <input
+                        type="range" min="0" max="20" step="0.5" value={settings.frame.border}
+                        onChange={(e) => updateFrame({ border: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                </div>
+                <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                    Border color
+                    <input type="color" value={settings.frame.borderColor} onChange={(e) => updateFrame({ borderColor: e.target.value })} className="w-8 h-6 cursor-pointer bg-transparent" />
+                </label>
 
-            {/* Saturation */}
-            <div>
-                <div className="flex justify-between mb-1">
-                    <label className="text-xs font-medium text-gray-500">Saturation</label>
-                    <span className="text-xs font-mono text-gray-400">{settings.saturation}%</span>
+                {/* Caption Strip */}
+                <div>
+                    <label className="text-xs font-medium text-gray-500">Caption</label>
+                    <div className="grid grid-cols-3 gap-2 mt-1">
+                        {[
+                            { id: 'none', label: 'None' },
+                            { id: 'top', label: 'Top' },
+                            { id: 'bottom', label: 'Bottom' },
+                        ].map((position) => (
+                            <button
+                                key={position.id}
+                                onClick={() => updateCaption({ position: position.id as CaptionSettings['position'] })}
+                                className={`py-1.5 px-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                                    settings.frame.caption.position === position.id
+                                    ? 'border-blue-600 bg-blue-50 text-blue-600'
+                                    : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                                }`}
+                            >
+                                {position.label}
+                            </button>
+                        ))}
+                    </div>
                 </div>
-                <input 
-                    type="range" min="0" max="200" value={settings.saturation} 
-                    onChange={(e) => update('saturation', Number(e.target.value))}
-                    className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-                />
+
+                {settings.frame.caption.position !== 'none' && (
+                    <div className="space-y-3">
+                        <div>
+                            <div className="flex justify-between mb-1">
+                                <label className="text-xs font-medium text-gray-500">Height</label>
+                                <span className="text-xs font-mono text-gray-400">{settings.frame.caption.height}%</span>
+                            </div>
+                            <input
+                                type="range" min="2" max="30" step="0.5" value={settings.frame.caption.height}
+                                onChange={(e) => updateCaption({ height: Number(e.target.value) })}
+                                className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                                Background
+                                <input type="color" value={settings.frame.caption.background} onChange={(e) => updateCaption({ background: e.target.value })} className="w-8 h-6 cursor-pointer bg-transparent" />
+                            </label>
+                            <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                                Text
+                                <input type="color" value={settings.frame.caption.textColor} onChange={(e) => updateCaption({ textColor: e.target.value })} className="w-8 h-6 cursor-pointer bg-transparent" />
+                            </label>
+                        </div>
+
+                        <div className="flex gap-2">
+                            <select
+                                value={settings.frame.caption.fontFamily}
+                                onChange={(e) => updateCaption({ fontFamily: e.target.value })}
+                                className="flex-1 min-w-0 px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+                            >
+                                {FONT_FAMILIES.map((font) => (
+                                    <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                                ))}
+                            </select>
+                            {([
+                                { id: 'left', icon: AlignLeft },
+                                { id: 'center', icon: AlignCenter },
+                                { id: 'right', icon: AlignRight },
+                            ] as const).map(({ id, icon: Icon }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => updateCaption({ align: id })}
+                                    className={`px-2 rounded-lg border-2 transition-all ${
+                                        settings.frame.caption.align === id
+                                        ? 'border-blue-600 bg-blue-50 text-blue-600'
+                                        : 'border-gray-200 hover:border-gray-300 text-gray-500'
+                                    }`}
+                                    title={`Align ${id}`}
+                                >
+                                    <Icon size={16} />
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Caption Logo */}
+                        <label className="flex items-center gap-2 text-xs font-medium text-gray-600 px-1 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={settings.frame.caption.showLogo}
+                                onChange={(e) => updateCaption({ showLogo: e.target.checked })}
+                                className="accent-blue-600"
+                            />
+                            Show logo
+                        </label>
+                        {settings.frame.caption.showLogo && logos.length > 1 && (
+                            <div className="grid grid-cols-4 gap-2">
+                                {logos.map((logo) => (
+                                    <button
+                                        key={logo.id}
+                                        onClick={() => updateCaption({ logoId: logo.id })}
+                                        className={`p-1 rounded-lg border-2 transition-all ${
+                                            (logos.some(l => l.id === settings.frame.caption.logoId) ? settings.frame.caption.logoId : logos[0].id) === logo.id
+                                            ? 'border-blue-600 bg-blue-50'
+                                            : 'border-gray-200 hover:border-gray-300'
+                                        }`}
+                                        title={logo.file.name}
+                                    >
+                                        <img src={logo.previewUrl} alt={logo.file.name} className="h-10 w-full object-contain" />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Caption Text */}
+                        {[
+                            { key: 'photographer', placeholder: 'Photographer' },
+                            { key: 'event', placeholder: 'Event name' },
+                        ].map((field) => (
+                            <input
+                                key={field.key}
+                                type="text"
+                                value={settings.frame.caption[field.key as 'photographer' | 'event']}
+                                onChange={(e) => updateCaption({ [field.key]: e.target.value })}
+                                placeholder={field.placeholder}
+                                className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-600 outline-none text-sm"
+                            />
+                        ))}
+                        <div className="flex gap-4 px-1">
+                            {[
+                                { key: 'showDate', label: 'Date' },
+                                { key: 'showNumber', label: 'Image number' },
+                            ].map((option) => (
+                                <label key={option.key} className="flex items-center gap-2 text-xs font-medium text-gray-600 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.frame.caption[option.key as 'showDate' | 'showNumber']}
+                                        onChange={(e) => updateCaption({ [option.key]: e.target.checked })}
+                                        className="accent-blue-600"
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <p className="text-xs text-gray-400">
+                    Sizes are % of the output's long edge. The frame is part of the output size, and layers stay on the photo.
+                </p>
             </div>
-        </div>
+        )}
       </div>
 
-      {/* Style Extras (Shadow) */}
-      <div className="border-t border-dashed border-gray-200 pt-4">
-          <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Style</label>
-          <button 
-              onClick={() => update('shadow', !settings.shadow)}
-              className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
-                  settings.shadow
-                  ? 'border-gray-800 bg-gray-50 text-gray-900'
-                  : 'border-gray-200 text-gray-500 hover:border-gray-300'
-              }`}
-          >
-              <span className="font-medium">Drop Shadow</span>
-              <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${settings.shadow ? 'bg-gray-800 border-gray-800 text-white' : 'border-gray-300 bg-white'}`}>
-                  {settings.shadow && <Check size={14} />}
-              </div>
-          </button>
+      {/* Output Size */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Output Size</label>
+        <div className="grid grid-cols-4 gap-2">
+            {[
+                { id: 'original', label: 'Original' },
+                { id: 'long-edge', label: 'Long Edge' },
+                { id: 'exact', label: 'Exact' },
+                { id: 'preset', label: 'Preset' },
+            ].map((mode) => (
+                <button
+                    key={mode.id}
+                    onClick={() => updateResize({ mode: mode.id as ResizeSettings['mode'] })}
+                    className={`py-2 px-1 rounded-lg border-2 text-xs font-medium transition-all ${
+                        settings.resize.mode === mode.id
+                        ? 'border-blue-600 bg-blue-50 text-blue-600'
+                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                    }`}
+                >
+                    {mode.label}
+                </button>
+            ))}
+        </div>
+
+        <div className="space-y-3 mt-3">
+            {settings.resize.mode === 'long-edge' && (
+                <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                    Max long edge (px)
+                    <input
+                        type="number"
+                        min={16}
+                        max={16384}
+                        value={settings.resize.longEdge}
+                        onChange={(e) => updateResize({ longEdge: Math.min(16384, Math.max(16, Number(e.target.value) || 16)) })}
+                        className="w-24 text-right text-sm text-gray-800 outline-none"
+                    />
+                </label>
+            )}
+
+            {settings.resize.mode === 'exact' && (
+                <div className="grid grid-cols-2 gap-2">
+                    {(['width', 'height'] as const).map((dimension) => (
+                        <label key={dimension} className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500 capitalize">
+                            {dimension}
+                            <input
+                                type="number"
+                                min={16}
+                                max={16384}
+                                value={settings.resize[dimension]}
+                                onChange={(e) => updateResize({ [dimension]: Math.min(16384, Math.max(16, Number(e.target.value) || 16)) })}
+                                className="w-16 text-right text-sm text-gray-800 outline-none"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {settings.resize.mode === 'preset' && (
+                <select
+                    value={settings.resize.preset}
+                    onChange={(e) => {
+                        const preset = SIZE_PRESETS.find(p => p.id === e.target.value);
+                        if (preset) updateResize({ preset: preset.id, fit: preset.fit });
+                    }}
+                    className="w-full px-2 py-2 rounded-lg border-2 border-gray-200 text-sm bg-white"
+                >
+                    {SIZE_PRESETS.map((preset) => (
+                        <option key={preset.id} value={preset.id}>{preset.label} ({preset.width}×{preset.height})</option>
+                    ))}
+                </select>
+            )}
+
+            {(settings.resize.mode === 'exact' || settings.resize.mode === 'preset') && (
+                <div className="grid grid-cols-3 gap-2">
+                    {[
+                        { id: 'fit', label: 'Fit' },
+                        { id: 'fill', label: 'Fill' },
+                        { id: 'crop', label: 'Crop' },
+                    ].map((fit) => (
+                        <button
+                            key={fit.id}
+                            onClick={() => updateResize({ fit: fit.id as ResizeSettings['fit'] })}
+                            className={`py-1.5 px-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                                settings.resize.fit === fit.id
+                                ? 'border-blue-600 bg-blue-50 text-blue-600'
+                                : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                            }`}
+                        >
+                            {fit.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {(settings.resize.mode === 'exact' || settings.resize.mode === 'preset') && settings.resize.fit === 'fill' && (
+                <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                    Background
+                    <input type="color" value={settings.resize.background} onChange={(e) => updateResize({ background: e.target.value })} className="w-8 h-6 cursor-pointer bg-transparent" />
+                </label>
+            )}
+
+            {settings.resize.mode !== 'original' && (
+                <p className="text-xs text-gray-400">
+                    {settings.resize.mode === 'long-edge' || settings.resize.fit === 'fit'
+                        ? 'Images are only ever scaled down, keeping their aspect ratio.'
+                        : settings.resize.fit === 'fill'
+                        ? 'Scaled to fit, then padded to the exact size.'
+                        : 'Scaled to cover the size, trimming the edges.'}
+                </p>
+            )}
+        </div>
       </div>
 
       {/* Output Format Selector */}
@@ -205,6 +814,193 @@ export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ settings,
                 </button>
             ))}
         </div>
+
+        {/* Quality (lossy formats only) */}
+        {settings.outputFormat !== 'image/png' && (
+            <div className="space-y-3 mt-4">
+                <div>
+                    <div className="flex justify-between mb-2">
+                        <span className="text-xs font-medium text-gray-500">{settings.qualityMode === 'target-size' ? 'Max Quality' : 'Quality'}</span>
+                        <span className="text-xs font-mono text-gray-500">{settings.quality}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="10"
+                        max="100"
+                        value={settings.quality}
+                        onChange={(e) => update('quality', Number(e.target.value))}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                </div>
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-600 px-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.qualityMode === 'target-size'}
+                        onChange={(e) => update('qualityMode', e.target.checked ? 'target-size' : 'fixed')}
+                        className="accent-blue-600"
+                    />
+                    Limit file size
+                </label>
+                {settings.qualityMode === 'target-size' && (
+                    <>
+                        <label className="flex items-center justify-between px-3 py-2 rounded-lg border-2 border-gray-200 text-xs font-medium text-gray-500">
+                            Max size per file (KB)
+                            <input
+                                type="number"
+                                min={10}
+                                value={settings.maxFileSizeKb}
+                                onChange={(e) => update('maxFileSizeKb', Math.max(10, Number(e.target.value) || 10))}
+                                className="w-24 text-right text-sm text-gray-800 outline-none"
+                            />
+                        </label>
+                        <p className="text-xs text-gray-400">Each image uses the highest quality that fits. Files that still don't fit at quality 10 are flagged.</p>
+                    </>
+                )}
+            </div>
+        )}
+      </div>
+
+      {/* Source Metadata (JPEG only) */}
+      {settings.outputFormat === 'image/jpeg' && (
+        <div className="space-y-2">
+            <button 
+                onClick={() => update('preserveMetadata', !settings.preserveMetadata)}
+                className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+                    settings.preserveMetadata
+                    ? 'border-blue-600 bg-blue-50 text-blue-600'
+                    : 'border-gray-200 text-gray-500 hover:border-gray-300'
+                }`}
+            >
+                <span className="font-medium text-sm">Keep Camera Metadata</span>
+                <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${settings.preserveMetadata ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 bg-white'}`}>
+                    {settings.preserveMetadata && <Check size={14} />}
+                </div>
+            </button>
+            {settings.preserveMetadata && (
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-600 px-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.stripGps}
+                        onChange={(e) => update('stripGps', e.target.checked)}
+                        className="accent-blue-600"
+                    />
+                    Strip GPS location only
+                </label>
+            )}
+        </div>
+      )}
+
+      {/* Rights Metadata */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Rights &amp; Copyright</label>
+        <div className="space-y-2">
+            {([
+                { key: 'creator', placeholder: 'Creator / photographer' },
+                { key: 'copyright', placeholder: `© ${new Date().getFullYear()} Your Name. All rights reserved.` },
+                { key: 'contactUrl', placeholder: 'https://your-site.com' },
+                { key: 'usageTerms', placeholder: 'Usage terms, e.g. No reuse without permission' },
+            ] as { key: keyof RightsMetadata; placeholder: string }[]).map((field) => (
+                <input
+                    key={field.key}
+                    type={field.key === 'contactUrl' ? 'url' : 'text'}
+                    value={settings.metadata[field.key]}
+                    onChange={(e) => updateMetadata(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-red-600 outline-none text-sm"
+                />
+            ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-2">Embedded in every exported file as XMP (plus EXIF for JPEG, text chunks for PNG).</p>
+      </div>
+
+      {/* Invisible Watermark */}
+      <div className="space-y-2">
+        <button
+            onClick={() => updateInvisibleMark({ enabled: !settings.invisibleMark.enabled })}
+            className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+                settings.invisibleMark.enabled
+                ? 'border-blue-600 bg-blue-50 text-blue-600'
+                : 'border-gray-200 text-gray-500 hover:border-gray-300'
+            }`}
+        >
+            <span className="font-medium text-sm">Invisible Watermark</span>
+            <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${settings.invisibleMark.enabled ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 bg-white'}`}>
+                {settings.invisibleMark.enabled && <Check size={14} />}
+            </div>
+        </button>
+        {settings.invisibleMark.enabled && (
+            <div className="space-y-3 px-1">
+                <input
+                    type="text"
+                    value={settings.invisibleMark.ownerId}
+                    onChange={(e) => updateInvisibleMark({ ownerId: e.target.value })}
+                    placeholder="Owner ID, e.g. studio-name-2025"
+                    className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-600 outline-none text-sm"
+                />
+                <div>
+                    <div className="flex justify-between mb-2">
+                        <span className="text-xs font-medium text-gray-500">Strength</span>
+                        <span className="text-xs font-mono text-gray-500">{settings.invisibleMark.strength}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        value={settings.invisibleMark.strength}
+                        onChange={(e) => updateInvisibleMark({ strength: Number(e.target.value) })}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                </div>
+                <p className="text-xs text-gray-400">
+                    Hidden in the pixels, so it survives metadata stripping, recompression and downscaling. Added to PNG and to JPEG at quality 80+ only; WebP and lower-quality JPEGs (including ones a max file size pushes below 80) stay unmarked. Raise the strength for busy photos. Check files on the Verify screen.
+                </p>
+            </div>
+        )}
+      </div>
+
+      {/* Download Mode */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">Download As</label>
+        <div className="grid grid-cols-2 gap-2">
+            {[
+                { id: 'zip', label: 'ZIP Archive' },
+                { id: 'files', label: 'Separate Files' },
+            ].map((mode) => (
+                <button
+                    key={mode.id}
+                    onClick={() => update('downloadAs', mode.id)}
+                    className={`py-2 px-3 rounded-lg border-2 text-sm font-medium transition-all ${
+                        settings.downloadAs === mode.id 
+                        ? 'border-blue-600 bg-blue-50 text-blue-600' 
+                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                    }`}
+                >
+                    {mode.label}
+                </button>
+            ))}
+        </div>
+        {settings.downloadAs === 'files' && (
+            <p className="text-xs text-gray-400 mt-2">Best for small batches. Browsers may block or ask about many downloads at once.</p>
+        )}
+      </div>
+
+      {/* File Names */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wider">File Names</label>
+        <input
+            type="text"
+            value={settings.fileNameTemplate}
+            onChange={(e) => update('fileNameTemplate', e.target.value)}
+            placeholder="{date}_{preset}_{index:4}.{ext}"
+            spellCheck={false}
+            className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-600 outline-none text-sm font-mono"
+        />
+        <p className="text-xs text-gray-500 mt-2 truncate" title="Example for the 42nd of 120 photos">
+            e.g. <span className="font-mono text-gray-700">{exampleFileName}</span>
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+            Tokens: {'{name} {index} {index:4} {date} {width} {height} {preset} {ext}'}. Repeated names get -2, -3… appended.
+        </p>
       </div>
 
       {/* Save Settings Button */}
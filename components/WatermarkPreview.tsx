@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import { WatermarkLayer, WatermarkResult, LayerPlacement, AnchorPosition } from '../types';
+import { AnchorIcon } from './AnchorIcon';
+import { formatFileSize } from '../utils/download';
+
+interface WatermarkPreviewProps {
+  result: WatermarkResult;
+  beforeUrl: string | null; // Unwatermarked render of the same size; shows the before/after split
+  actualSize: boolean; // 1:1 output pixels in a pannable viewport
+  layers: WatermarkLayer[];
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string) => void;
+  onLayerChange: (id: string, changes: Partial<WatermarkLayer>) => void;
+}
+
+interface DragState {
+  layerId: string;
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  start: LayerPlacement;
+  current: LayerPlacement;
+}
+
+// Shows the rendered preview with a draggable/resizable box over each placed layer.
+// Boxes are tracked in output pixels and converted to normalized anchors on change,
+// so the placement carries over to every image in the batch. Anchors are relative
+// to the photo area, which is smaller than the output when a frame is on.
+export const WatermarkPreview: React.FC<WatermarkPreviewProps> = ({ result, beforeUrl, actualSize, layers, selectedLayerId, onSelectLayer, onLayerChange }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [split, setSplit] = useState(50); // Before/after divider, % from the left
+  const [splitDragging, setSplitDragging] = useState(false);
+  const [pan, setPan] = useState<{ pointerX: number; pointerY: number; scrollLeft: number; scrollTop: number } | null>(null);
+
+  // Ratio between displayed CSS pixels and output pixels
+  const getDisplayScale = () => {
+    const img = imgRef.current;
+    return img && img.naturalWidth ? img.clientWidth / img.naturalWidth : 1;
+  };
+
+  const startDrag = (e: React.PointerEvent, placement: LayerPlacement, mode: DragState['mode']) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    onSelectLayer(placement.layerId);
+    setDrag({ layerId: placement.layerId, mode, pointerX: e.clientX, pointerY: e.clientY, start: placement, current: placement });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const displayScale = getDisplayScale();
+    const dx = (e.clientX - drag.pointerX) / displayScale;
+    const dy = (e.clientY - drag.pointerY) / displayScale;
+    const { start } = drag;
+
+    const area = result.photoArea;
+    let current: LayerPlacement;
+    if (drag.mode === 'move') {
+      current = { ...start, x: start.x + dx, y: start.y + dy };
+    } else {
+      // Resize from the bottom-right handle, keeping the aspect ratio and top-left corner
+      // Same range as the Size slider (5-100% of the photo width)
+      const width = Math.min(area.width, Math.max(area.width * 0.05, start.width + dx));
+      current = { ...start, width, height: width * (start.height / start.width) };
+    }
+    setDrag({ ...drag, current });
+
+    const layer = layers.find(l => l.id === drag.layerId);
+    if (!layer) return;
+
+    const changes: Partial<WatermarkLayer> = {};
+    if (drag.mode === 'resize') {
+      changes.scale = Math.round((current.width / area.width) * 1000) / 10;
+    }
+    // Anchored layers stay anchored while resizing; any move switches to free placement
+    if (drag.mode === 'move' || layer.position === 'custom') {
+      changes.position = 'custom';
+      changes.x = Math.min(1, Math.max(0, (current.x + current.width / 2 - area.x) / area.width));
+      changes.y = Math.min(1, Math.max(0, (current.y + current.height / 2 - area.y) / area.height));
+    }
+    onLayerChange(drag.layerId, changes);
+  };
+
+  const endDrag = () => setDrag(null);
+
+  const moveSplit = (clientX: number) => {
+    const rect = imgRef.current?.getBoundingClientRect();
+    if (rect && rect.width > 0) setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const startSplitDrag = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setSplitDragging(true);
+    moveSplit(e.clientX);
+  };
+
+  // At 100% the viewport scrolls; dragging the photo pans it
+  const startPan = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current;
+    if (!actualSize || !viewport) return;
+    e.preventDefault();
+    viewport.setPointerCapture(e.pointerId);
+    setPan({ pointerX: e.clientX, pointerY: e.clientY, scrollLeft: viewport.scrollLeft, scrollTop: viewport.scrollTop });
+  };
+
+  const handleViewportPointerMove = (e: React.PointerEvent) => {
+    if (splitDragging) moveSplit(e.clientX);
+    const viewport = viewportRef.current;
+    if (pan && viewport) {
+      viewport.scrollLeft = pan.scrollLeft - (e.clientX - pan.pointerX);
+      viewport.scrollTop = pan.scrollTop - (e.clientY - pan.pointerY);
+    }
+  };
+
+  const endViewportDrag = () => {
+    setSplitDragging(false);
+    setPan(null);
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      onPointerDown={startPan}
+      onPointerMove={handleViewportPointerMove}
+      onPointerUp={endViewportDrag}
+      onPointerCancel={endViewportDrag}
+      className={actualSize
+        ? `relative z-10 w-full h-[500px] overflow-auto ${pan ? 'cursor-grabbing' : 'cursor-grab'}`
+        : 'relative z-10'}
+    >
+      <div className="relative inline-block align-top select-none" onPointerMove={handlePointerMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+        <img
+            ref={imgRef}
+            src={result.url}
+            alt="Preview"
+            draggable={false}
+            className={actualSize ? 'max-w-none block' : 'max-w-full max-h-[500px] object-contain shadow-xl block'}
+        />
+
+        {/* Before/After Split */}
+        {beforeUrl && (
+          <>
+            <img
+              src={beforeUrl}
+              alt="Original"
+              draggable={false}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div
+              onPointerDown={startSplitDrag}
+              className="absolute top-0 bottom-0 w-6 -ml-3 flex justify-center cursor-ew-resize z-10"
+              style={{ left: `${split}%` }}
+            >
+              <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)]" />
+              <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white border-2 border-blue-600 shadow" />
+            </div>
+            <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs font-medium pointer-events-none">Before</span>
+            <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs font-medium pointer-events-none">After</span>
+          </>
+        )}
+
+        {/* Output Size */}
+        <span className={`absolute top-2 left-2 px-2 py-0.5 rounded text-white text-xs font-medium pointer-events-none ${result.exceedsTarget ? 'bg-red-600' : 'bg-black/60'}`}>
+          {result.width} × {result.height} · {formatFileSize(result.blob.size)}{result.quality !== null && ` · Q${result.quality}`}
+        </span>
+
+        {/* Layer boxes are hidden while comparing so the split handle stays reachable */}
+        {!beforeUrl && result.placements.map((rendered) => {
+          // While dragging, follow the pointer instead of waiting for the re-render
+          const placement = drag?.layerId === rendered.layerId ? drag.current : rendered;
+          const selected = selectedLayerId === placement.layerId;
+          return (
+            <div
+              key={placement.layerId}
+              onPointerDown={(e) => startDrag(e, rendered, 'move')}
+              className={`absolute cursor-move border-2 transition-colors ${
+                selected ? 'border-red-600 bg-red-600/5' : 'border-transparent hover:border-white/80'
+              }`}
+              style={{
+                left: `${(placement.x / result.width) * 100}%`,
+                top: `${(placement.y / result.height) * 100}%`,
+                width: `${(placement.width / result.width) * 100}%`,
+                height: `${(placement.height / result.height) * 100}%`,
+              }}
+            >
+              {/* Anchor chosen by auto-placement */}
+              {placement.auto && (
+                <span className="absolute top-0.5 left-0.5 flex items-center gap-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px] font-medium whitespace-nowrap pointer-events-none">
+                  <AnchorIcon anchor={placement.position as AnchorPosition} size={10} /> Auto: {placement.position.replace('-', ' ')}
+                </span>
+              )}
+              {selected && (
+                <div
+                  onPointerDown={(e) => startDrag(e, rendered, 'resize')}
+                  className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border-2 border-red-600 rounded-sm cursor-nwse-resize"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,270 @@
 
-export interface WatermarkSettings {
+export type AnchorPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// 'auto' picks the calmest of the layer's allowed anchors for each image
+export type WatermarkPosition = AnchorPosition | 'tiled' | 'custom' | 'auto';
+
+export interface TextWatermarkSettings {
+  content: string;
+  fontFamily: string;
+  fontWeight: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // Outline thickness as % of font size
+  letterSpacing: number; // Extra spacing between characters as % of font size
+}
+
+export interface TileSettings {
+  angle: number; // Rotation of the whole pattern in degrees
+  spacingX: number; // Horizontal gap between tiles as % of the tile width
+  spacingY: number; // Vertical gap between rows as % of the tile height
+  stagger: number; // Brick offset of every other row as % of the horizontal step
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'difference';
+
+// Effect sizes are % of the photo's long edge, so a batch of mixed sizes looks alike
+export interface ShadowSettings {
+  enabled: boolean;
+  color: string;
+  opacity: number;
+  blur: number;
+  distance: number;
+  angle: number; // Direction the shadow falls, in degrees clockwise from the right
+}
+
+export interface OutlineSettings {
+  enabled: boolean;
+  color: string;
+  width: number;
+}
+
+export interface GlowSettings {
+  enabled: boolean;
+  color: string;
+  opacity: number;
+  size: number;
+}
+
+// Draws only raised edges (lit from the top left) in place of the mark itself
+export interface EmbossSettings {
+  enabled: boolean;
+  depth: number;
+}
+
+export interface WatermarkLayer {
+  id: string;
+  name: string;
+  type: 'logo' | 'text';
+  visible: boolean;
+  logoId: string | null; // References a LogoAsset (logo layers only)
+  adaptive: boolean; // Swap in a light or dark logo variant depending on the photo
+  lightLogoId: string | null; // Used on dark photos; null generates a white version
+  darkLogoId: string | null; // Used on bright photos; null generates a black version
+  text: TextWatermarkSettings; // Text layers only
+  tile: TileSettings; // Used when position is 'tiled'
+  position: WatermarkPosition;
+  autoAnchors: AnchorPosition[]; // Candidates considered in 'auto' mode
+  x: number; // Normalized (0-1) horizontal center of the layer when position is 'custom'
+  y: number; // Normalized (0-1) vertical center of the layer when position is 'custom'
+  scale: number; // Layer width as % of image width
   opacity: number;
-  scale: number;
-  position: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'tiled';
   margin: number;
+  blendMode: BlendMode; // How the styled layer mixes with the photo
+  shadow: ShadowSettings;
+  outline: OutlineSettings; // Stroke around the mark's alpha
+  glow: GlowSettings;
+  emboss: EmbossSettings;
+}
+
+export type ResizeFit = 'fit' | 'fill' | 'crop';
+
+export interface ResizeSettings {
+  mode: 'original' | 'long-edge' | 'exact' | 'preset';
+  longEdge: number; // Max long edge in px ('long-edge' mode)
+  width: number; // Target box in px ('exact' mode)
+  height: number;
+  preset: string; // SizePreset id ('preset' mode)
+  fit: ResizeFit; // Fit inside, letterbox to the exact size, or crop to fill it
+  background: string; // Letterbox color for 'fill'
+}
+
+// Strip above or below the photo with a logo and a line of details
+export interface CaptionSettings {
+  position: 'none' | 'top' | 'bottom';
+  height: number; // % of the output's long edge
+  background: string;
+  textColor: string;
+  fontFamily: string;
+  align: 'left' | 'center' | 'right';
+  showLogo: boolean;
+  logoId: string | null; // The first logo stands in when this one isn't loaded
+  photographer: string;
+  event: string;
+  showDate: boolean; // Date the batch was exported
+  showNumber: boolean; // Position of the image in the batch
+}
+
+// Puts the photo on a larger canvas, so marks can sit outside it
+export interface FrameSettings {
+  enabled: boolean;
+  border: number; // % of the output's long edge
+  borderColor: string;
+  caption: CaptionSettings;
+}
+
+// Creator and rights information written into every exported file
+export interface RightsMetadata {
+  creator: string;
+  copyright: string;
+  contactUrl: string;
+  usageTerms: string;
+}
+
+// Owner ID hidden in the pixels of every output, found again with the Verify screen
+export interface InvisibleMarkSettings {
+  enabled: boolean;
+  ownerId: string;
+  strength: number; // Peak luminance change in 8-bit levels (1-10)
+}
+
+export interface WatermarkSettings {
+  layers: WatermarkLayer[]; // Composited bottom to top
   outputFormat: 'image/jpeg' | 'image/png' | 'image/webp';
-  shadow: boolean;
+  downloadAs: 'zip' | 'files'; // One archive for the batch, or a download per image
+  fileNameTemplate: string; // Tokens: {name} {index} {index:N} {date} {width} {height} {preset} {ext}
+  resize: ResizeSettings; // Applied before the watermark layers
+  frame: FrameSettings; // The output size includes the frame
+  quality: number; // JPEG/WebP encoder quality (1-100); the ceiling in 'target-size' mode
+  qualityMode: 'fixed' | 'target-size';
+  maxFileSizeKb: number; // Per-file limit in 'target-size' mode
+  preserveMetadata: boolean; // Copy the source EXIF/IPTC/XMP into JPEG output
+  stripGps: boolean; // Drop location data from preserved metadata
+  metadata: RightsMetadata;
+  invisibleMark: InvisibleMarkSettings;
   brightness: number;
   contrast: number;
   saturation: number;
+  // Pixel adjustments, applied to the resized photo in this order
+  autoLevels: boolean; // Black and white points from each photo's own histogram
+  levelsBlack: number; // Manual input black point (0-255)
+  levelsWhite: number; // Manual input white point (0-255)
+  temperature: number; // -100 (cooler) to 100 (warmer)
+  tint: number; // -100 (greener) to 100 (more magenta)
+  shadows: number; // -100 (deepen) to 100 (lift)
+  highlights: number; // -100 (recover) to 100 (brighten)
+  sharpen: number; // Unsharp mask amount (0-200%)
+  sharpenRadius: number; // Unsharp mask radius in output pixels
+  vignette: number; // -100 (darker corners) to 100 (lighter)
+}
+
+// The photo corrections, which images can override one by one
+export type EnhancementSettings = Pick<WatermarkSettings,
+  'brightness' | 'contrast' | 'saturation' | 'autoLevels' | 'levelsBlack' | 'levelsWhite'
+  | 'temperature' | 'tint' | 'shadows' | 'highlights' | 'sharpen' | 'sharpenRadius' | 'vignette'>;
+
+// Where a layer ended up on a rendered image, in output pixels
+export interface LayerPlacement {
+  layerId: string;
+  position: WatermarkPosition; // As drawn; 'auto' layers report the anchor that was chosen
+  auto: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LogoVariant = 'original' | 'light' | 'dark';
+
+// Placement fields a single image can change for one layer
+export type LayerOverride = Partial<Pick<WatermarkLayer, 'position' | 'x' | 'y' | 'scale' | 'opacity' | 'margin'>>;
+
+// Per-image adjustments applied on top of the batch settings
+export interface ImageOverrides {
+  logoVariant?: LogoVariant; // Forces the variant for adaptive layers instead of picking by luminance
+  skipWatermark?: boolean; // Export the image without any layers
+  settings?: Partial<Omit<WatermarkSettings, 'layers'>>;
+  layers?: Record<string, LayerOverride>; // Keyed by layer id
+}
+
+// Where an image sits in its batch, for the caption's number and date
+export interface CaptionContext {
+  index: number; // 1-based
+  total: number;
+  date: Date; // When the batch started
+}
+
+// Pixel counts per value (256 bins each)
+export interface Histogram {
+  red: number[];
+  green: number[];
+  blue: number[];
+  luminance: number[];
+}
+
+// Output of the render pipeline, safe to pass back from a worker
+export interface RenderOutput {
+  blob: Blob;
+  width: number;
+  height: number;
+  photoArea: { x: number; y: number; width: number; height: number }; // Inside the frame; layers are laid out on it
+  placements: LayerPlacement[];
+  quality: number | null; // Encoder quality used (1-100), null for lossless PNG
+  exceedsTarget: boolean; // Still over the max file size at the lowest quality
+  logoVariant: LogoVariant | null; // Variant drawn by the first adaptive logo layer
+  histogram: Histogram; // Of the adjusted photo, before any marks
+}
+
+export interface WatermarkResult extends RenderOutput {
+  url: string; // Blob URL of the rendered image
+}
+
+// Clean-up applied to an uploaded logo before it is drawn
+export interface LogoProcessing {
+  removeBackground: boolean; // Color-key `backgroundColor` to transparent
+  backgroundColor: string;
+  tolerance: number; // 0-100, how far from the background color still counts as background
+  colorMode: 'original' | 'tint' | 'white' | 'black' | 'custom'; // 'white'/'black'/'custom' make a solid silhouette
+  color: string; // Tint or silhouette color
+  tintStrength: number; // 0-100
+}
+
+export interface LogoAsset {
+  id: string;
+  file: File; // What layers draw: the processed logo, or the upload itself when nothing is applied
+  original: File; // As uploaded
+  processing: LogoProcessing;
+  previewUrl: string;
 }
 
 export interface ProcessedImage {
   id: string;
   originalFile: File;
-  previewUrl: string; // The URL of the processed image (blob)
   status: 'pending' | 'processing' | 'done' | 'error';
   errorMessage?: string;
+  overrides: ImageOverrides;
+  output?: {
+    fileName: string; // Name in the archive or download, unique within the batch
+    size: number;
+    quality: number | null;
+    exceedsTarget: boolean;
+    autoAnchors: AnchorPosition[]; // Anchors picked for 'auto' layers, bottom to top
+    logoVariant: LogoVariant | null; // Variant drawn by the first adaptive layer
+  }; // Set once exported
+}
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  failed: number;
+  startedAt: number;
+  pausedAt: number | null; // Set while the batch is paused
+  pausedMs: number; // Total time spent paused, excluded from the ETA
 }
 
 export interface AppState {
   images: ProcessedImage[];
-  logo: File | null;
-  logoPreviewUrl: string | null;
+  logos: LogoAsset[];
   settings: WatermarkSettings;
   isProcessing: boolean;
-}
\ No newline at end of file
+}
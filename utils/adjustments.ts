@@ -0,0 +1,208 @@
+import { EnhancementSettings, Histogram } from '../types';
+import { getRasterBackend, RasterCanvas } from './raster';
+import { Rect } from './placement';
+
+// Pixel-level photo corrections. Brightness, contrast and saturation stay CSS
+// filters applied while the photo is drawn; everything here works on the
+// resized pixels afterwards, so sharpening matches the output size.
+
+// Histograms for display and auto corrections are taken from a copy this small
+const SAMPLE_SIZE = 512;
+// Auto levels ignores this share of pixels at each end, so a few specks of
+// pure black or white don't block the stretch
+const LEVELS_CLIP = 0.005;
+// Temperature and tint at ±100 scale the channels by this much
+const WHITE_BALANCE_RANGE = 0.3;
+// Shadows and highlights at ±100 move their tones by up to this share of the range
+const TONE_RANGE = 0.25;
+// Vignette at ±100 darkens (or lightens) the corners by this much
+const VIGNETTE_STRENGTH = 0.7;
+// Share of the distance to the corners left untouched by the vignette
+const VIGNETTE_START = 0.35;
+
+const luminanceOf = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// The CSS filter for brightness, contrast and saturation, null when neutral
+export const getEnhancementFilter = (settings: EnhancementSettings): string | null =>
+  settings.brightness !== 100 || settings.contrast !== 100 || settings.saturation !== 100
+    ? `brightness(${settings.brightness}%) contrast(${settings.contrast}%) saturate(${settings.saturation}%)`
+    : null;
+
+const hasToneAdjustments = (settings: EnhancementSettings) =>
+  settings.autoLevels || settings.levelsBlack !== 0 || settings.levelsWhite !== 255
+  || settings.temperature !== 0 || settings.tint !== 0 || settings.shadows !== 0 || settings.highlights !== 0;
+
+export const hasPixelAdjustments = (settings: EnhancementSettings): boolean =>
+  hasToneAdjustments(settings) || settings.sharpen > 0 || settings.vignette !== 0;
+
+export const computeHistogram = (data: Uint8ClampedArray): Histogram => {
+  const histogram: Histogram = {
+    red: new Array(256).fill(0),
+    green: new Array(256).fill(0),
+    blue: new Array(256).fill(0),
+    luminance: new Array(256).fill(0),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luminance[Math.round(luminanceOf(data[i], data[i + 1], data[i + 2]))]++;
+  }
+  return histogram;
+};
+
+// Histogram of part of a canvas or image, measured on a scaled-down copy
+export const measureHistogram = (source: RasterCanvas | CanvasImageSource, area: Rect, filter: string | null = null): Histogram => {
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(area.width, area.height));
+  const width = Math.max(1, Math.round(area.width * scale));
+  const height = Math.max(1, Math.round(area.height * scale));
+
+  const sample = getRasterBackend().createCanvas(width, height);
+  const ctx = sample.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  if (filter) ctx.filter = filter;
+  ctx.drawImage(source as unknown as CanvasImageSource, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  return computeHistogram(ctx.getImageData(0, 0, width, height).data);
+};
+
+// Darkest and brightest values of one channel, ignoring the clipped share
+const getChannelRange = (counts: number[]) => {
+  const clip = counts.reduce((sum, count) => sum + count, 0) * LEVELS_CLIP;
+  let low = 0;
+  for (let seen = counts[0]; low < 255 && seen <= clip; seen += counts[++low]);
+  let high = 255;
+  for (let seen = counts[255]; high > 0 && seen <= clip; seen += counts[--high]);
+  return { low, high };
+};
+
+// Black and white points that stretch the photo to the full range. They are
+// shared by all channels, so a color cast is left to the white balance
+// instead of being clipped away.
+export const getAutoLevels = (histogram: Histogram): Pick<EnhancementSettings, 'levelsBlack' | 'levelsWhite'> => {
+  const ranges = [histogram.red, histogram.green, histogram.blue].map(getChannelRange);
+  const black = Math.min(...ranges.map(range => range.low));
+  const white = Math.max(...ranges.map(range => range.high));
+  return white - black > 1 ? { levelsBlack: black, levelsWhite: white } : { levelsBlack: 0, levelsWhite: 255 };
+};
+
+const createLevelsTable = (black: number, white: number) => {
+  const table = new Float32Array(256);
+  const range = Math.max(1, white - black);
+  for (let v = 0; v < 256; v++) table[v] = Math.min(255, Math.max(0, ((v - black) / range) * 255));
+  return table;
+};
+
+// Channel multipliers for a temperature and tint
+const getWhiteBalance = (temperature: number, tint: number) => {
+  const warm = (temperature / 100) * WHITE_BALANCE_RANGE;
+  return { red: 1 + warm, green: 1 - (tint / 100) * WHITE_BALANCE_RANGE, blue: 1 - warm };
+};
+
+// Temperature and tint that make the average color (after the given levels)
+// neutral gray: the classic gray-world correction
+export const getAutoWhiteBalance = (histogram: Histogram, levels: Pick<EnhancementSettings, 'levelsBlack' | 'levelsWhite'>): Pick<EnhancementSettings, 'temperature' | 'tint'> => {
+  const table = createLevelsTable(levels.levelsBlack, levels.levelsWhite);
+  const mean = (counts: number[]) => {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return total > 0 ? counts.reduce((sum, count, v) => sum + count * table[v], 0) / total : 0;
+  };
+  const red = mean(histogram.red);
+  const green = mean(histogram.green);
+  const blue = mean(histogram.blue);
+  if (red + blue === 0 || green === 0) return { temperature: 0, tint: 0 };
+
+  const clamp = (value: number) => Math.round(Math.min(100, Math.max(-100, value)));
+  // Equal red and blue first; green then goes to their (possibly still unequal) average
+  const temperature = clamp((((blue - red) / (blue + red)) / WHITE_BALANCE_RANGE) * 100);
+  const balance = getWhiteBalance(temperature, 0);
+  const gray = (red * balance.red + blue * balance.blue) / 2;
+  return { temperature, tint: clamp(((1 - gray / green) / WHITE_BALANCE_RANGE) * 100) };
+};
+
+// How much shadows and highlights move each luminance value
+const createToneTable = (shadows: number, highlights: number) => {
+  const table = new Float32Array(256);
+  for (let v = 0; v < 256; v++) {
+    const l = v / 255;
+    // Smooth bumps peaking at a third (shadows) and two thirds (highlights), zero at black and white
+    const shadowWeight = (27 / 4) * l * (1 - l) * (1 - l);
+    const highlightWeight = (27 / 4) * l * l * (1 - l);
+    table[v] = TONE_RANGE * 255 * ((shadows / 100) * shadowWeight + (highlights / 100) * highlightWeight);
+  }
+  return table;
+};
+
+// Applies levels, white balance, shadows/highlights, sharpening and vignette
+// to one area of the canvas (the photo, not the bars or frame around it)
+export const applyPixelAdjustments = async (canvas: RasterCanvas, area: Rect, settings: EnhancementSettings) => {
+  const raster = getRasterBackend();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+
+  const x = Math.round(area.x);
+  const y = Math.round(area.y);
+  const width = Math.round(area.width);
+  const height = Math.round(area.height);
+  const pixels = ctx.getImageData(x, y, width, height);
+  const { data } = pixels;
+  const toned = hasToneAdjustments(settings);
+
+  if (toned) {
+    const levels = settings.autoLevels ? getAutoLevels(computeHistogram(data)) : settings;
+    const table = createLevelsTable(levels.levelsBlack, levels.levelsWhite);
+    const balance = getWhiteBalance(settings.temperature, settings.tint);
+    const tone = createToneTable(settings.shadows, settings.highlights);
+    for (let i = 0; i < data.length; i += 4) {
+      const r = table[data[i]] * balance.red;
+      const g = table[data[i + 1]] * balance.green;
+      const b = table[data[i + 2]] * balance.blue;
+      const shift = tone[Math.min(255, Math.max(0, Math.round(luminanceOf(r, g, b))))];
+      data[i] = r + shift;
+      data[i + 1] = g + shift;
+      data[i + 2] = b + shift;
+    }
+  }
+
+  // Unsharp mask: push each pixel away from a blurred copy of itself
+  let blurred: Uint8ClampedArray | null = null;
+  if (settings.sharpen > 0) {
+    if (toned) ctx.putImageData(pixels, x, y);
+    const blur = raster.createCanvas(width, height);
+    const blurCtx = blur.getContext('2d');
+    if (!blurCtx) throw new Error('System memory low. Could not create drawing context.');
+    blurCtx.filter = `blur(${settings.sharpenRadius}px)`;
+    blurCtx.drawImage(canvas as unknown as CanvasImageSource, x, y, width, height, 0, 0, width, height);
+    blurred = blurCtx.getImageData(0, 0, width, height).data;
+  }
+
+  if (blurred || settings.vignette !== 0) {
+    const amount = settings.sharpen / 100;
+    const strength = (Math.abs(settings.vignette) / 100) * VIGNETTE_STRENGTH;
+    const lighten = settings.vignette > 0;
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+
+    for (let row = 0; row < height; row++) {
+      const dy = (row + 0.5 - halfHeight) / halfHeight;
+      for (let col = 0; col < width; col++) {
+        const i = (row * width + col) * 4;
+        if (blurred) {
+          data[i] += amount * (data[i] - blurred[i]);
+          data[i + 1] += amount * (data[i + 1] - blurred[i + 1]);
+          data[i + 2] += amount * (data[i + 2] - blurred[i + 2]);
+        }
+        if (strength > 0) {
+          // Elliptical, following the photo's shape: 0 in the middle, 1 in the corners
+          const dx = (col + 0.5 - halfWidth) / halfWidth;
+          const reach = Math.max(0, (Math.hypot(dx, dy) / Math.SQRT2 - VIGNETTE_START) / (1 - VIGNETTE_START));
+          const weight = strength * reach * reach;
+          for (let c = i; c < i + 3; c++) {
+            data[c] = lighten ? data[c] + (255 - data[c]) * weight : data[c] * (1 - weight);
+          }
+        }
+      }
+    }
+  }
+
+  ctx.putImageData(pixels, x, y);
+};
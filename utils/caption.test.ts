@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getCaptionText } from './caption';
+import { DEFAULT_FRAME } from './settings';
+
+const context = { index: 7, total: 120, date: new Date(2024, 4, 1) };
+
+describe('getCaptionText', () => {
+  it('joins the details that are set', () => {
+    const caption = { ...DEFAULT_FRAME.caption, photographer: ' Jane Doe ', event: 'Spring Gala' };
+    expect(getCaptionText(caption, context)).toBe('Jane Doe  ·  Spring Gala  ·  2024-05-01  ·  #007');
+  });
+
+  it('skips empty and hidden details', () => {
+    const caption = { ...DEFAULT_FRAME.caption, photographer: 'Jane Doe', event: '  ', showDate: false };
+    expect(getCaptionText(caption, context)).toBe('Jane Doe  ·  #007');
+  });
+
+  it('pads the number to at least two digits', () => {
+    const caption = { ...DEFAULT_FRAME.caption, showDate: false };
+    expect(getCaptionText(caption, { ...context, total: 9 })).toBe('#07');
+  });
+
+  it('is empty when nothing is shown', () => {
+    const caption = { ...DEFAULT_FRAME.caption, showDate: false, showNumber: false };
+    expect(getCaptionText(caption, context)).toBe('');
+  });
+});
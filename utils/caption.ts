@@ -0,0 +1,65 @@
+import { CaptionSettings, CaptionContext } from '../types';
+import { getRasterBackend, DrawingContext, RasterImage } from './raster';
+import { formatDate } from './download';
+import { Rect } from './placement';
+
+// Proportions of the caption strip's height
+const LOGO_HEIGHT = 0.6;
+const FONT_SIZE = 0.32;
+const PADDING = 0.3;
+const FONT_WEIGHT = 500;
+
+const SEPARATOR = '  ·  ';
+
+// The line of details, e.g. "Jane Doe  ·  Spring Gala  ·  2024-05-01  ·  #07"
+export const getCaptionText = (caption: CaptionSettings, context: CaptionContext): string => [
+  caption.photographer.trim(),
+  caption.event.trim(),
+  caption.showDate ? formatDate(context.date) : '',
+  caption.showNumber ? `#${String(context.index).padStart(Math.max(2, String(context.total).length), '0')}` : '',
+].filter(Boolean).join(SEPARATOR);
+
+// Fills the strip and draws the logo and text side by side as one aligned
+// group. The logo is asked for at its drawn height, so SVGs stay crisp; the
+// text is shrunk when the group would overflow the strip.
+export const drawCaption = async (
+  ctx: DrawingContext,
+  strip: Rect,
+  caption: CaptionSettings,
+  context: CaptionContext,
+  loadLogo: ((height: number) => Promise<RasterImage>) | null
+) => {
+  const raster = getRasterBackend();
+  ctx.fillStyle = caption.background;
+  ctx.fillRect(strip.x, strip.y, strip.width, strip.height);
+
+  const padding = strip.height * PADDING;
+  const logoHeight = strip.height * LOGO_HEIGHT;
+  const logo = loadLogo ? await loadLogo(logoHeight) : null;
+  const logoWidth = logo ? logoHeight * (logo.width / logo.height) : 0;
+
+  const text = getCaptionText(caption, context);
+  const fontSize = Math.max(1, Math.round(strip.height * FONT_SIZE));
+  const label = text ? await raster.renderText(text, `${FONT_WEIGHT} ${fontSize}px "${caption.fontFamily}"`, caption.textColor) : null;
+
+  const gap = logo && label ? padding : 0;
+  const room = Math.max(0, strip.width - padding * 2 - logoWidth - gap);
+  const labelScale = label ? Math.min(1, room / label.width) : 0;
+  const labelWidth = label ? label.width * labelScale : 0;
+  const groupWidth = logoWidth + gap + labelWidth;
+
+  let x = strip.x + padding;
+  if (caption.align === 'center') x = strip.x + (strip.width - groupWidth) / 2;
+  if (caption.align === 'right') x = strip.x + strip.width - padding - groupWidth;
+  const centerY = strip.y + strip.height / 2;
+
+  if (logo) {
+    ctx.drawImage(logo, x, centerY - logoHeight / 2, logoWidth, logoHeight);
+    x += logoWidth + gap;
+  }
+  if (label) {
+    const labelHeight = label.height * labelScale;
+    ctx.drawImage(label, x, centerY - labelHeight / 2, labelWidth, labelHeight);
+    raster.release(label);
+  }
+};
@@ -0,0 +1,13 @@
+export const parseHex = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+// CSS color for a hex color at an opacity of 0-100
+export const withOpacity = (hex: string, opacity: number) => {
+  const [r, g, b] = parseHex(hex);
+  return `rgba(${r}, ${g}, ${b}, ${opacity / 100})`;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createUniqueNamer, FileNameContext, getOutputFileName } from './download';
+
+const context: FileNameContext = {
+  originalName: 'IMG_0042.HEIC.jpg',
+  index: 7,
+  total: 120,
+  date: new Date(2025, 0, 9, 18, 30),
+  width: 2048,
+  height: 1365,
+  preset: 'Instagram',
+  format: 'image/jpeg',
+};
+
+describe('getOutputFileName', () => {
+  it.each([
+    { template: '{name}_watermarked', expected: 'IMG_0042.HEIC_watermarked.jpg' },
+    { template: '{date}_{preset}_{index}.{ext}', expected: '2025-01-09_Instagram_007.jpg' },
+    { template: 'photo-{index:4}', expected: 'photo-0007.jpg' },
+    { template: 'photo-{index:1}', expected: 'photo-7.jpg' },
+    { template: '{width}x{height}', expected: '2048x1365.jpg' },
+    { template: '{name}-{unknown}', expected: 'IMG_0042.HEIC-{unknown}.jpg' },
+  ])('expands "$template"', ({ template, expected }) => {
+    expect(getOutputFileName(template, context)).toBe(expected);
+  });
+
+  it('pads {index} to the digit count of the batch size', () => {
+    expect(getOutputFileName('{index}', { ...context, total: 9 })).toBe('7.jpg');
+    expect(getOutputFileName('{index}', { ...context, total: 1000 })).toBe('0007.jpg');
+  });
+
+  it('keeps {index:N} padding between 1 and 10 digits', () => {
+    expect(getOutputFileName('{index:0}', context)).toBe('7.jpg');
+    expect(getOutputFileName('{index:500}', context)).toBe('0000000007.jpg');
+  });
+
+  it('uses the extension of the output format', () => {
+    expect(getOutputFileName('{name}.{ext}', { ...context, format: 'image/webp' })).toBe('IMG_0042.HEIC.webp');
+    expect(getOutputFileName('{name}', { ...context, format: 'image/png' })).toBe('IMG_0042.HEIC.png');
+  });
+
+  it('replaces characters that are not allowed in file names', () => {
+    expect(getOutputFileName('{preset}/{name}', { ...context, preset: 'A:B*C?' })).toBe('A-B-C--IMG_0042.HEIC.jpg');
+    expect(getOutputFileName('a<b>c|d"e\\f\tg', context)).toBe('a-b-c-d-e-f-g.jpg');
+  });
+
+  it('falls back to the original name when the template renders empty', () => {
+    expect(getOutputFileName('{preset}', { ...context, preset: '' })).toBe('IMG_0042.HEIC.jpg');
+    expect(getOutputFileName('  ', context)).toBe('IMG_0042.HEIC.jpg');
+  });
+});
+
+describe('createUniqueNamer', () => {
+  it('numbers repeated names from -2', () => {
+    const unique = createUniqueNamer();
+    expect(unique('photo.jpg')).toBe('photo.jpg');
+    expect(unique('photo.jpg')).toBe('photo-2.jpg');
+    expect(unique('photo.jpg')).toBe('photo-3.jpg');
+  });
+
+  it('treats names that differ only in case as repeats', () => {
+    const unique = createUniqueNamer();
+    expect(unique('Photo.JPG')).toBe('Photo.JPG');
+    expect(unique('photo.jpg')).toBe('photo-2.jpg');
+    expect(unique('PHOTO.jpg')).toBe('PHOTO-3.jpg');
+  });
+
+  it('skips suffixes that are already taken', () => {
+    const unique = createUniqueNamer();
+    expect(unique('photo-2.jpg')).toBe('photo-2.jpg');
+    expect(unique('photo.jpg')).toBe('photo.jpg');
+    expect(unique('photo.jpg')).toBe('photo-3.jpg');
+  });
+
+  it('handles names without an extension', () => {
+    const unique = createUniqueNamer();
+    expect(unique('README')).toBe('README');
+    expect(unique('readme')).toBe('readme-2');
+  });
+});
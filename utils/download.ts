@@ -0,0 +1,89 @@
+import { WatermarkSettings } from '../types';
+
+const EXTENSIONS: Record<WatermarkSettings['outputFormat'], string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Values for the tokens of a filename template
+export interface FileNameContext {
+  originalName: string;
+  index: number; // 1-based position in the batch
+  total: number; // Batch size; {index} is zero-padded to its digit count
+  date: Date; // When the batch started
+  width: number;
+  height: number;
+  preset: string; // Active preset name, empty when none
+  format: WatermarkSettings['outputFormat'];
+}
+
+// {index:N} padding is kept to a sane range, so "{index:500}" can't blow up the name
+const MIN_INDEX_WIDTH = 1;
+const MAX_INDEX_WIDTH = 10;
+
+// Characters that are not allowed in file names on common systems
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\x00-\x1f]/g;
+
+export const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Fills a template such as "{date}_{preset}_{index:4}.{ext}". {index:N} pads to
+// N digits (1-10); unknown tokens are kept as typed. ".{ext}" is added when missing.
+export const getOutputFileName = (template: string, context: FileNameContext): string => {
+  const baseName = context.originalName.substring(0, context.originalName.lastIndexOf('.')) || context.originalName;
+  const ext = EXTENSIONS[context.format];
+  const withExtension = template.includes('{ext}') ? template : `${template}.{ext}`;
+
+  const name = withExtension.replace(/\{(\w+)(?::(\d+))?\}/g, (token, key: string, width?: string) => {
+    switch (key) {
+      case 'name': return baseName;
+      case 'index': {
+        const digits = width ? Math.min(MAX_INDEX_WIDTH, Math.max(MIN_INDEX_WIDTH, Number(width))) : String(context.total).length;
+        return String(context.index).padStart(digits, '0');
+      }
+      case 'date': return formatDate(context.date);
+      case 'width': return String(context.width);
+      case 'height': return String(context.height);
+      case 'preset': return context.preset;
+      case 'ext': return ext;
+      default: return token;
+    }
+  }).replace(UNSAFE_CHARACTERS, '-').trim();
+
+  // A template that renders to nothing but the extension falls back to the original name
+  return name && name !== `.${ext}` ? name : `${baseName}.${ext}`;
+};
+
+// Returns a function that hands out each name once, adding "-2", "-3"... to
+// repeats. Case-insensitive, since most file systems and unzip tools are.
+export const createUniqueNamer = () => {
+  const used = new Set<string>();
+  return (fileName: string): string => {
+    const dot = fileName.lastIndexOf('.');
+    const stem = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+    let candidate = fileName;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem}-${n}${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
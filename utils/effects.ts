@@ -0,0 +1,172 @@
+import { WatermarkLayer, BlendMode } from '../types';
+import { getRasterBackend, RasterImage } from './raster';
+import { parseHex, withOpacity } from './color';
+
+// A mark with its effects baked in. `pad` pixels of room surround the mark on
+// every side for effects that reach outside it (shadow, glow, outline).
+export interface StyledMark {
+  image: RasterImage;
+  pad: number;
+}
+
+export const BLEND_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  'soft-light': 'soft-light',
+  difference: 'difference',
+};
+
+export const hasMarkEffects = (layer: WatermarkLayer): boolean =>
+  layer.shadow.enabled || layer.outline.enabled || layer.glow.enabled || layer.emboss.enabled;
+
+// Canvas shadows fade out about this many blur radii from the shape
+const BLUR_REACH = 1.5;
+const INSIDE_ALPHA = 128;
+const FAR = 1e20;
+
+// Squared distance from every pixel to the nearest opaque pixel of the mark
+// (Felzenszwalb & Huttenlocher: exact, in two linear passes)
+const squaredDistances = (pixels: ImageData): Float64Array => {
+  const { width, height, data } = pixels;
+  const grid = new Float64Array(width * height);
+  for (let i = 0; i < grid.length; i++) grid[i] = data[i * 4 + 3] >= INSIDE_ALPHA ? 0 : FAR;
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  const intersect = (q: number, p: number) => ((f[q] + q * q) - (f[p] + p * p)) / (2 * q - 2 * p);
+
+  const transform = (offset: number, stride: number, length: number) => {
+    for (let i = 0; i < length; i++) f[i] = grid[offset + i * stride];
+    let k = 0;
+    v[0] = 0;
+    z[0] = -FAR;
+    z[1] = FAR;
+    for (let q = 1; q < length; q++) {
+      let s = intersect(q, v[k]);
+      while (s <= z[k]) s = intersect(q, v[--k]);
+      v[++k] = q;
+      z[k] = s;
+      z[k + 1] = FAR;
+    }
+    k = 0;
+    for (let q = 0; q < length; q++) {
+      while (z[k + 1] < q) k++;
+      grid[offset + q * stride] = (q - v[k]) ** 2 + f[v[k]];
+    }
+  };
+
+  for (let x = 0; x < width; x++) transform(x, width, height);
+  for (let y = 0; y < height; y++) transform(y * width, 1, width);
+  return grid;
+};
+
+// Bakes outline, emboss, glow and drop shadow into a mark drawn at width x
+// height. Sizes are resolved against the photo's long edge.
+export const renderMarkEffects = async (
+  mark: RasterImage,
+  width: number,
+  height: number,
+  layer: WatermarkLayer,
+  longEdge: number
+): Promise<StyledMark> => {
+  const raster = getRasterBackend();
+  const toPixels = (percent: number) => (percent / 100) * longEdge;
+  const { shadow, outline, glow, emboss } = layer;
+
+  const outlineWidth = outline.enabled ? toPixels(outline.width) : 0;
+  const embossDepth = emboss.enabled ? Math.max(1, toPixels(emboss.depth)) : 0;
+  const glowSize = glow.enabled ? toPixels(glow.size) : 0;
+  const shadowBlur = shadow.enabled ? toPixels(shadow.blur) : 0;
+  const shadowDistance = shadow.enabled ? toPixels(shadow.distance) : 0;
+  const pad = Math.ceil(outlineWidth + Math.max(
+    embossDepth,
+    glowSize * BLUR_REACH,
+    shadow.enabled ? shadowDistance + shadowBlur * BLUR_REACH : 0
+  )) + 1;
+
+  const markWidth = Math.max(1, Math.round(width));
+  const markHeight = Math.max(1, Math.round(height));
+  const canvasWidth = markWidth + pad * 2;
+  const canvasHeight = markHeight + pad * 2;
+
+  const createContext = () => {
+    const canvas = raster.createCanvas(canvasWidth, canvasHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+    return { canvas, ctx };
+  };
+
+  // The mark in one flat color, keeping its alpha
+  const silhouette = async (color: string) => {
+    const { canvas, ctx } = createContext();
+    ctx.drawImage(mark, pad, pad, markWidth, markHeight);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    return raster.toImage(canvas);
+  };
+
+  // Outline and mark (or its embossed edges) form the body the shadow and glow are cast from
+  const body = createContext();
+
+  if (outline.enabled && outlineWidth > 0) {
+    const { ctx } = createContext();
+    ctx.drawImage(mark, pad, pad, markWidth, markHeight);
+    const pixels = ctx.getImageData(0, 0, canvasWidth, canvasHeight);
+    const distances = squaredDistances(pixels);
+    const [r, g, b] = parseHex(outline.color);
+    for (let i = 0; i < distances.length; i++) {
+      // One pixel of falloff keeps the outer edge anti-aliased
+      const coverage = Math.min(1, Math.max(0, outlineWidth + 1 - Math.sqrt(distances[i])));
+      pixels.data[i * 4] = r;
+      pixels.data[i * 4 + 1] = g;
+      pixels.data[i * 4 + 2] = b;
+      pixels.data[i * 4 + 3] = Math.round(coverage * 255);
+    }
+    body.ctx.putImageData(pixels, 0, 0);
+  }
+
+  if (emboss.enabled) {
+    // Light from the top left: a bright rim up-left, a dark rim down-right, the face cut away
+    const [light, dark] = await Promise.all([silhouette('#ffffff'), silhouette('#000000')]);
+    const edges = createContext();
+    edges.ctx.drawImage(light, -embossDepth, -embossDepth);
+    edges.ctx.drawImage(dark, embossDepth, embossDepth);
+    edges.ctx.globalCompositeOperation = 'destination-out';
+    edges.ctx.drawImage(mark, pad, pad, markWidth, markHeight);
+    const edgesImage = await raster.toImage(edges.canvas);
+    body.ctx.drawImage(edgesImage, 0, 0);
+    [light, dark, edgesImage].forEach(image => raster.release(image));
+  } else {
+    body.ctx.drawImage(mark, pad, pad, markWidth, markHeight);
+  }
+
+  const bodyImage = await raster.toImage(body.canvas);
+  const { canvas, ctx } = createContext();
+
+  if (shadow.enabled) {
+    const angle = (shadow.angle * Math.PI) / 180;
+    ctx.shadowColor = withOpacity(shadow.color, shadow.opacity);
+    ctx.shadowBlur = shadowBlur;
+    ctx.shadowOffsetX = Math.cos(angle) * shadowDistance;
+    ctx.shadowOffsetY = Math.sin(angle) * shadowDistance;
+  }
+  ctx.drawImage(bodyImage, 0, 0);
+
+  if (glow.enabled && glowSize > 0) {
+    // Only the shadow of an off-canvas copy lands here: a halo without a second mark
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.shadowColor = withOpacity(glow.color, glow.opacity);
+    ctx.shadowBlur = glowSize;
+    ctx.shadowOffsetX = canvasWidth;
+    ctx.shadowOffsetY = 0;
+    ctx.drawImage(bodyImage, -canvasWidth, 0);
+  }
+
+  raster.release(bodyImage);
+  return { image: await raster.toImage(canvas), pad };
+};
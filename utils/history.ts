@@ -0,0 +1,105 @@
+import { useCallback, useState } from 'react';
+
+// Changes to the same thing closer together than this merge into one undo
+// step, so dragging a slider or typing a caption undoes as a single edit
+const COALESCE_MS = 600;
+const MAX_STEPS = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastChange: number; // When `present` was last edited; 0 starts a new step on the next edit
+  lastKey: string | null; // What that edit changed (see coalesceKey)
+}
+
+export interface HistoryState<T> {
+  state: T;
+  setState: (next: T | ((prev: T) => T)) => void;
+  // Updates the present without an undo step, for changes the user didn't make
+  // (e.g. linking an uploaded logo); the next edit starts a new step
+  replaceState: (next: T | ((prev: T) => T)) => void;
+  // Replaces the present and forgets the history (e.g. a restored session)
+  resetState: (next: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// useState with an undo/redo stack. Every update through setState is
+// recorded; a quick run of updates with the same `coalesceKey` (e.g. the
+// field they change) becomes one step. Without a key nothing is merged.
+export const useHistoryState = <T>(
+  initial: T | (() => T),
+  coalesceKey: (prev: T, next: T) => string | null = () => null
+): HistoryState<T> => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: initial instanceof Function ? initial() : initial,
+    future: [],
+    lastChange: 0,
+    lastKey: null,
+  }));
+
+  const setState = useCallback((next: T | ((prev: T) => T)) => {
+    const now = Date.now();
+    setHistory(prev => {
+      const present = next instanceof Function ? next(prev.present) : next;
+      if (Object.is(present, prev.present)) return prev;
+      const key = coalesceKey(prev.present, present);
+      const coalesce = key !== null && key === prev.lastKey && now - prev.lastChange < COALESCE_MS;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_STEPS),
+        present,
+        future: [],
+        lastChange: now,
+        lastKey: key,
+      };
+    });
+  }, [coalesceKey]);
+
+  const replaceState = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(prev => ({
+      ...prev,
+      present: next instanceof Function ? next(prev.present) : next,
+      lastChange: 0,
+      lastKey: null,
+    }));
+  }, []);
+
+  const resetState = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [], lastChange: 0, lastKey: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+      lastChange: 0,
+      lastKey: null,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+      lastChange: 0,
+      lastKey: null,
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    setState,
+    replaceState,
+    resetState,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { nodeRasterBackend } from '../cli/nodeRaster';
+import { setRasterBackend, getRasterBackend, RasterCanvas } from './raster';
+import { embedInvisibleMark, detectInvisibleMark, readImageForVerification, DETECTION_THRESHOLD } from './invisibleMark';
+import { renderWatermarkedImage } from './watermark';
+import { createDefaultSettings } from './settings';
+import { WatermarkSettings } from '../types';
+
+const WIDTH = 1600;
+const HEIGHT = 1200;
+const OWNER_ID = 'studio-name-2025';
+
+// A photo-like test image: smooth gradients, a few shapes and seeded grain
+const drawPhoto = (canvas: RasterCanvas) => {
+  const ctx = canvas.getContext('2d')!;
+  const sky = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  sky.addColorStop(0, '#2b3a67');
+  sky.addColorStop(0.6, '#c98b4a');
+  sky.addColorStop(1, '#f2d7a0');
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.fillStyle = '#1d2b1f';
+  ctx.beginPath();
+  ctx.ellipse(WIDTH * 0.3, HEIGHT, WIDTH * 0.5, HEIGHT * 0.35, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#fff4d6';
+  ctx.beginPath();
+  ctx.arc(WIDTH * 0.75, HEIGHT * 0.3, HEIGHT * 0.08, 0, Math.PI * 2);
+  ctx.fill();
+
+  const image = ctx.getImageData(0, 0, WIDTH, HEIGHT);
+  let seed = 7;
+  for (let i = 0; i < image.data.length; i += 4) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const grain = ((seed >>> 16) % 13) - 6;
+    image.data[i] += grain;
+    image.data[i + 1] += grain;
+    image.data[i + 2] += grain;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const createPhoto = (ownerId: string | null) => {
+  const canvas = getRasterBackend().createCanvas(WIDTH, HEIGHT);
+  drawPhoto(canvas);
+  if (ownerId) embedInvisibleMark(canvas.getContext('2d')!, WIDTH, HEIGHT, ownerId, 4);
+  return canvas;
+};
+
+// Re-encodes as a JPEG at `quality`, then scales the decoded copy by `scale`
+const recompress = async (canvas: RasterCanvas, quality: number, scale: number): Promise<Blob> => {
+  const raster = getRasterBackend();
+  const decoded = await raster.decodeImage(await raster.encode(canvas, 'image/jpeg', quality));
+  const small = raster.createCanvas(Math.round(WIDTH * scale), Math.round(HEIGHT * scale));
+  small.getContext('2d')!.drawImage(decoded, 0, 0, small.width, small.height);
+  return raster.encode(small, 'image/jpeg', quality);
+};
+
+describe('invisible mark', () => {
+  beforeAll(() => {
+    setRasterBackend(nodeRasterBackend);
+  });
+
+  it('is detected in the untouched output', () => {
+    const canvas = createPhoto(OWNER_ID);
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, WIDTH, HEIGHT);
+    expect(detectInvisibleMark(pixels, OWNER_ID).detected).toBe(true);
+  });
+
+  it.each([
+    { quality: 0.8, scale: 1 },
+    { quality: 0.5, scale: 1 },
+    { quality: 0.8, scale: 0.5 },
+    { quality: 0.5, scale: 0.25 },
+  ])('survives JPEG quality $quality at $scale scale', async ({ quality, scale }) => {
+    const file = await recompress(createPhoto(OWNER_ID), quality, scale);
+    const detection = detectInvisibleMark(await readImageForVerification(file), OWNER_ID);
+    expect(detection.score).toBeGreaterThan(DETECTION_THRESHOLD);
+    expect(detection.detected).toBe(true);
+  });
+
+  it('does not match a different owner ID', async () => {
+    const file = await recompress(createPhoto(OWNER_ID), 0.8, 0.5);
+    const detection = detectInvisibleMark(await readImageForVerification(file), 'someone-else');
+    expect(detection.detected).toBe(false);
+    expect(Math.abs(detection.score)).toBeLessThan(DETECTION_THRESHOLD);
+  });
+
+  it('finds nothing in a photo that was never marked', async () => {
+    const file = await recompress(createPhoto(null), 0.8, 0.5);
+    const detection = detectInvisibleMark(await readImageForVerification(file), OWNER_ID);
+    expect(detection.detected).toBe(false);
+    expect(Math.abs(detection.score)).toBeLessThan(DETECTION_THRESHOLD);
+  });
+});
+
+describe('invisible mark in rendered output', () => {
+  beforeAll(() => {
+    setRasterBackend(nodeRasterBackend);
+  });
+
+  // Renders the photo through the pipeline with the visible layers skipped and the mark on
+  const render = async (changes: Partial<WatermarkSettings>) => {
+    const source = await getRasterBackend().encode(createPhoto(null), 'image/png');
+    const settings: WatermarkSettings = {
+      ...createDefaultSettings(),
+      layers: [],
+      invisibleMark: { enabled: true, ownerId: OWNER_ID, strength: 4 },
+      ...changes,
+    };
+    const file = new File([source], 'photo.png', { type: 'image/png' });
+    const output = await renderWatermarkedImage(file, settings, new Map(), { skipWatermark: true });
+    const detection = detectInvisibleMark(await readImageForVerification(output.blob), OWNER_ID);
+    return { output, detection };
+  };
+
+  it.each([
+    { outputFormat: 'image/png' as const, quality: 90 },
+    { outputFormat: 'image/jpeg' as const, quality: 90 },
+  ])('is embedded in $outputFormat at quality $quality', async changes => {
+    const { detection } = await render(changes);
+    expect(detection.detected).toBe(true);
+  });
+
+  it.each([
+    { outputFormat: 'image/jpeg' as const, quality: 60 },
+    { outputFormat: 'image/webp' as const, quality: 90 },
+  ])('is left out of $outputFormat at quality $quality', async changes => {
+    const { detection } = await render(changes);
+    expect(detection.detected).toBe(false);
+  });
+
+  it('is left out when a size limit lowers JPEG quality below 80', async () => {
+    const { output, detection } = await render({
+      outputFormat: 'image/jpeg', quality: 95, qualityMode: 'target-size', maxFileSizeKb: 60,
+    });
+    expect(output.quality).toBeLessThan(80);
+    expect(detection.detected).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { DrawingContext, getRasterBackend, RasterImage } from './raster';
+
+// Invisible watermark: a faint, smooth ±1 pattern derived from the owner ID is
+// added to the luminance of the whole image. The pattern lives on a coarse grid
+// in normalized coordinates, so it survives downscaling and re-compression.
+// Detection correlates the image's block averages against the pattern expected
+// for an ID, so it answers "is this ID present?" rather than reading an ID out.
+
+const GRID = 64;
+// Samples per block axis when averaging the interpolated pattern
+const BLOCK_SAMPLES = 4;
+// Correlation z-score above which the ID counts as detected (about 1 in 30,000 by chance)
+export const DETECTION_THRESHOLD = 4;
+// The mark goes into PNG and into JPEG encoded at this quality or more; below
+// it (and in WebP) detection is not reliable, so those outputs stay unmarked
+export const MIN_MARK_JPEG_QUALITY = 80;
+
+export interface MarkDetection {
+  detected: boolean;
+  score: number; // z-score of the correlation
+  confidence: number; // 0-1, one-sided probability that the match is not chance
+}
+
+// FNV-1a, then mulberry32: small, deterministic and identical in every engine
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(value)) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createChips = (ownerId: string): Float32Array => {
+  const random = createRandom(hashString(ownerId.trim()));
+  return Float32Array.from({ length: GRID * GRID }, () => (random() < 0.5 ? -1 : 1));
+};
+
+// Pattern value at a normalized position, bilinearly interpolated between
+// block centers so there are no visible block edges
+const samplePattern = (chips: Float32Array, u: number, v: number): number => {
+  const gx = Math.min(GRID - 1, Math.max(0, u * GRID - 0.5));
+  const gy = Math.min(GRID - 1, Math.max(0, v * GRID - 0.5));
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const x1 = Math.min(GRID - 1, x0 + 1);
+  const y1 = Math.min(GRID - 1, y0 + 1);
+  const fx = gx - x0;
+  const fy = gy - y0;
+  const top = chips[y0 * GRID + x0] * (1 - fx) + chips[y0 * GRID + x1] * fx;
+  const bottom = chips[y1 * GRID + x0] * (1 - fx) + chips[y1 * GRID + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+// Subtracts the mean of each cell's 8 neighbours. Removes most of the photo's
+// own low-frequency content, which would otherwise drown the pattern.
+const highPass = (values: Float32Array): Float32Array => {
+  const result = new Float32Array(values.length);
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx || dy) && nx >= 0 && ny >= 0 && nx < GRID && ny < GRID) {
+            sum += values[ny * GRID + nx];
+            count++;
+          }
+        }
+      }
+      result[y * GRID + x] = values[y * GRID + x] - sum / count;
+    }
+  }
+  return result;
+};
+
+// Adds the pattern for `ownerId` to everything drawn on the context so far.
+// `strength` is the peak luminance change in 8-bit levels.
+export const embedInvisibleMark = (ctx: DrawingContext, width: number, height: number, ownerId: string, strength: number) => {
+  const chips = createChips(ownerId);
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const delta = strength * samplePattern(chips, (x + 0.5) / width, v);
+      const i = (y * width + x) * 4;
+      data[i] = Math.min(255, Math.max(0, data[i] + delta));
+      data[i + 1] = Math.min(255, Math.max(0, data[i + 1] + delta));
+      data[i + 2] = Math.min(255, Math.max(0, data[i + 2] + delta));
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+};
+
+// Block averages of the pattern as it ends up after interpolation
+const expectedBlockMeans = (chips: Float32Array): Float32Array => {
+  const means = new Float32Array(GRID * GRID);
+  for (let by = 0; by < GRID; by++) {
+    for (let bx = 0; bx < GRID; bx++) {
+      let sum = 0;
+      for (let sy = 0; sy < BLOCK_SAMPLES; sy++) {
+        for (let sx = 0; sx < BLOCK_SAMPLES; sx++) {
+          sum += samplePattern(chips, (bx + (sx + 0.5) / BLOCK_SAMPLES) / GRID, (by + (sy + 0.5) / BLOCK_SAMPLES) / GRID);
+        }
+      }
+      means[by * GRID + bx] = sum / (BLOCK_SAMPLES * BLOCK_SAMPLES);
+    }
+  }
+  return means;
+};
+
+// Average luminance of each grid cell
+const measureBlockMeans = (image: ImageData): Float32Array => {
+  const sums = new Float64Array(GRID * GRID);
+  const counts = new Uint32Array(GRID * GRID);
+  const { data, width, height } = image;
+
+  for (let y = 0; y < height; y++) {
+    const by = Math.min(GRID - 1, Math.floor((y * GRID) / height));
+    for (let x = 0; x < width; x++) {
+      const bx = Math.min(GRID - 1, Math.floor((x * GRID) / width));
+      const i = (y * width + x) * 4;
+      sums[by * GRID + bx] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[by * GRID + bx]++;
+    }
+  }
+
+  return Float32Array.from(sums, (sum, i) => (counts[i] ? sum / counts[i] : 0));
+};
+
+// One-sided normal tail probability (Abramowitz & Stegun 7.1.26 for erfc)
+const normalTail = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erfc = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? erfc / 2 : 1 - erfc / 2;
+};
+
+// Checks an image for the pattern of `ownerId`. Pass the full image or a
+// downscaled copy of it; at least a few pixels per grid cell are needed.
+export const detectInvisibleMark = (image: ImageData, ownerId: string): MarkDetection => {
+  const observed = highPass(measureBlockMeans(image));
+  const expected = highPass(expectedBlockMeans(createChips(ownerId)));
+
+  let dot = 0;
+  let observedEnergy = 0;
+  let expectedEnergy = 0;
+  for (let i = 0; i < observed.length; i++) {
+    dot += observed[i] * expected[i];
+    observedEnergy += observed[i] * observed[i];
+    expectedEnergy += expected[i] * expected[i];
+  }
+
+  const correlation = observedEnergy > 0 && expectedEnergy > 0 ? dot / Math.sqrt(observedEnergy * expectedEnergy) : 0;
+  const score = correlation * Math.sqrt(observed.length);
+  return { detected: score >= DETECTION_THRESHOLD, score, confidence: 1 - normalTail(score) };
+};
+
+// Only block averages matter for detection, so large photos are checked on a smaller copy
+const VERIFY_SIZE = 1024;
+
+// Decodes any image file into pixels ready for detectInvisibleMark
+export const readImageForVerification = async (file: Blob): Promise<ImageData> => {
+  const raster = getRasterBackend();
+  let image: RasterImage;
+  try {
+    image = await raster.decodeImage(file);
+  } catch {
+    throw new Error('Could not read this image. The format might be unsupported or the file is corrupted.');
+  }
+
+  try {
+    const scale = Math.min(1, VERIFY_SIZE / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const canvas = raster.createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    raster.release(image);
+  }
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeExifSegment } from './jpeg';
+
+const THUMBNAIL = 98;
+const THUMBNAIL_LENGTH = 16;
+
+// Little-endian EXIF segment laid out as:
+// IFD0 (orientation 6, Exif IFD pointer) at 8, Exif IFD (4000 x 3000) at 38,
+// IFD1 (thumbnail pointer and length) at 68, thumbnail bytes at 98
+const createExifSegment = () => {
+  const tiff = new Uint8Array(THUMBNAIL + THUMBNAIL_LENGTH);
+  const view = new DataView(tiff.buffer);
+  const writeIfd = (offset: number, entries: [number, number, number][], next: number) => {
+    view.setUint16(offset, entries.length, true);
+    entries.forEach(([tag, type, value], i) => {
+      const entry = offset + 2 + i * 12;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      view.setUint32(entry + 4, 1, true);
+      if (type === 3) view.setUint16(entry + 8, value, true);
+      else view.setUint32(entry + 8, value, true);
+    });
+    view.setUint32(offset + 2 + entries.length * 12, next, true);
+  };
+
+  tiff.set([0x49, 0x49, 42, 0, 8, 0, 0, 0]);
+  writeIfd(8, [[0x0112, 3, 6], [0x8769, 4, 38]], 68);
+  writeIfd(38, [[0xa002, 3, 4000], [0xa003, 4, 3000]], 0);
+  writeIfd(68, [[0x0201, 4, THUMBNAIL], [0x0202, 4, THUMBNAIL_LENGTH]], 0);
+  tiff.fill(0xab, THUMBNAIL);
+
+  const payload = [...Array.from('Exif\0\0', ch => ch.charCodeAt(0)), ...tiff];
+  const length = payload.length + 2;
+  return new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff, ...payload]);
+};
+
+const readTiff = (segment: Uint8Array) => {
+  const view = new DataView(segment.buffer, segment.byteOffset + 10);
+  return { u16: (offset: number) => view.getUint16(offset, true), u32: (offset: number) => view.getUint32(offset, true) };
+};
+
+describe('sanitizeExifSegment', () => {
+  it('resets the orientation', () => {
+    const tiff = readTiff(sanitizeExifSegment(createExifSegment(), { stripGps: false, width: 1200, height: 900 }));
+    expect(tiff.u16(8 + 2 + 8)).toBe(1);
+  });
+
+  it('drops the thumbnail of the original', () => {
+    const segment = sanitizeExifSegment(createExifSegment(), { stripGps: false, width: 1200, height: 900 });
+    const tiff = readTiff(segment);
+    expect(tiff.u32(8 + 2 + 2 * 12)).toBe(0);
+    expect(segment.subarray(10 + THUMBNAIL).every(byte => byte === 0)).toBe(true);
+  });
+
+  it('sets the pixel dimensions to the output size', () => {
+    const tiff = readTiff(sanitizeExifSegment(createExifSegment(), { stripGps: false, width: 1200, height: 900 }));
+    expect(tiff.u16(38 + 2 + 8)).toBe(1200);
+    expect(tiff.u32(38 + 2 + 12 + 8)).toBe(900);
+  });
+});
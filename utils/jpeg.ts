@@ -0,0 +1,376 @@
+// JPEG segment parsing and EXIF handling. Pure byte manipulation, so it runs
+// in workers as well as on the main thread.
+
+export interface JpegSegment {
+  marker: number; // Second marker byte, e.g. 0xe1 for APP1
+  bytes: Uint8Array; // The whole segment including marker and length
+}
+
+export interface JpegInfo {
+  width: number; // Stored (unrotated) dimensions from the frame header
+  height: number;
+  orientation: number; // EXIF orientation, 1-8
+  segments: JpegSegment[]; // Header segments up to the start of scan
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENSION_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+const IPTC_HEADER = 'Photoshop 3.0\0';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+export const TAG_ARTIST = 0x013b;
+export const TAG_COPYRIGHT = 0x8298;
+
+// Byte sizes of the TIFF field types
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Segment payload starts after the marker (2 bytes) and length (2 bytes)
+const payloadStartsWith = (segment: JpegSegment, text: string) => startsWith(segment.bytes, 4, text);
+
+export const isExifSegment = (segment: JpegSegment) => segment.marker === 0xe1 && payloadStartsWith(segment, EXIF_HEADER);
+export const isXmpSegment = (segment: JpegSegment) =>
+  segment.marker === 0xe1 && (payloadStartsWith(segment, XMP_HEADER) || payloadStartsWith(segment, XMP_EXTENSION_HEADER));
+export const isIptcSegment = (segment: JpegSegment) => segment.marker === 0xed && payloadStartsWith(segment, IPTC_HEADER);
+
+// Walks the marker segments of a JPEG until the image data starts.
+// Returns null for anything that is not a JPEG. A truncated buffer is fine:
+// parsing simply stops at the last complete segment.
+export const parseJpeg = (bytes: Uint8Array): JpegInfo | null => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const info: JpegInfo = { width: 0, height: 0, orientation: 1, segments: [] };
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) { offset++; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { offset += 2; continue; }
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2 || offset + 2 + length > bytes.length) break;
+
+    const segment: JpegSegment = { marker, bytes: bytes.subarray(offset, offset + 2 + length) };
+    info.segments.push(segment);
+
+    // SOF0-SOF15 (except DHT, JPG and DAC) hold the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      info.height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      info.width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+    }
+
+    if (isExifSegment(segment)) {
+      info.orientation = readExifOrientation(segment.bytes) ?? 1;
+    }
+
+    offset += 2 + length;
+  }
+
+  return info;
+};
+
+interface TiffReader {
+  view: DataView;
+  base: number; // Offset of the TIFF header inside the segment
+  little: boolean;
+  u16: (offset: number) => number;
+  u32: (offset: number) => number;
+}
+
+const createTiffReader = (segment: Uint8Array): TiffReader | null => {
+  const base = 4 + EXIF_HEADER.length;
+  if (segment.length < base + 8) return null;
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const order = view.getUint16(base);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  return {
+    view,
+    base,
+    little,
+    u16: (offset) => view.getUint16(base + offset, little),
+    u32: (offset) => view.getUint32(base + offset, little),
+  };
+};
+
+// Finds an entry in an IFD; returns its offset relative to the TIFF header
+const findEntry = (tiff: TiffReader, ifd: number, tag: number): number | null => {
+  try {
+    const count = tiff.u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (tiff.u16(entry) === tag) return entry;
+    }
+  } catch {
+    // Offsets pointing outside the segment: treat the tag as missing
+  }
+  return null;
+};
+
+const findIfd0Entry = (tiff: TiffReader, tag: number): number | null => findEntry(tiff, tiff.u32(4), tag);
+
+const readExifOrientation = (segment: Uint8Array): number | null => {
+  const tiff = createTiffReader(segment);
+  if (!tiff) return null;
+  const entry = findIfd0Entry(tiff, TAG_ORIENTATION);
+  if (entry === null) return null;
+  const value = tiff.u16(entry + 8);
+  return value >= 1 && value <= 8 ? value : null;
+};
+
+// Zeroes an IFD's entry table and every value stored outside it
+const blankIfd = (tiff: TiffReader, bytes: Uint8Array, ifd: number) => {
+  const count = tiff.u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const size = (TYPE_SIZES[tiff.u16(entry + 2)] ?? 1) * tiff.u32(entry + 4);
+    if (size > 4) {
+      const valueOffset = tiff.u32(entry + 8);
+      bytes.fill(0, tiff.base + valueOffset, Math.min(bytes.length, tiff.base + valueOffset + size));
+    }
+  }
+  bytes.fill(0, tiff.base + ifd, Math.min(bytes.length, tiff.base + ifd + 2 + count * 12 + 4));
+};
+
+// Removes the GPS IFD pointer from IFD0 and blanks the GPS data itself, so no
+// coordinates are left behind in the bytes. Other offsets stay valid because
+// nothing outside IFD0's entry table is moved.
+const removeGps = (tiff: TiffReader, bytes: Uint8Array) => {
+  const entry = findIfd0Entry(tiff, TAG_GPS_IFD);
+  if (entry === null) return;
+
+  try {
+    blankIfd(tiff, bytes, tiff.u32(entry + 8));
+  } catch {
+    // Malformed GPS IFD: dropping the pointer below is still enough to hide it from readers
+  }
+
+  // Shift the remaining entries (and the next-IFD offset) over the removed one
+  const ifd = tiff.u32(4);
+  const count = tiff.u16(ifd);
+  const tableEnd = ifd + 2 + count * 12 + 4;
+  bytes.copyWithin(tiff.base + entry, tiff.base + entry + 12, tiff.base + tableEnd);
+  bytes.fill(0, tiff.base + tableEnd - 12, tiff.base + tableEnd);
+  tiff.view.setUint16(tiff.base + ifd, count - 1, tiff.little);
+};
+
+// Unlinks IFD1 and blanks it along with the embedded thumbnail, which still
+// shows the original photo without the watermark
+const removeThumbnail = (tiff: TiffReader, bytes: Uint8Array) => {
+  const ifd0 = tiff.u32(4);
+  const nextOffset = ifd0 + 2 + tiff.u16(ifd0) * 12;
+  const ifd1 = tiff.u32(nextOffset);
+  if (ifd1 === 0) return;
+
+  try {
+    const offset = findEntry(tiff, ifd1, TAG_THUMBNAIL_OFFSET);
+    const length = findEntry(tiff, ifd1, TAG_THUMBNAIL_LENGTH);
+    if (offset !== null && length !== null) {
+      const start = tiff.base + tiff.u32(offset + 8);
+      bytes.fill(0, start, Math.min(bytes.length, start + tiff.u32(length + 8)));
+    }
+    blankIfd(tiff, bytes, ifd1);
+  } catch {
+    // Malformed IFD1: unlinking it below still hides it from readers
+  }
+  tiff.view.setUint32(tiff.base + nextOffset, 0, tiff.little);
+};
+
+// Points the Exif IFD's pixel dimensions at the output size. They are SHORT
+// or LONG, always stored inline.
+const setPixelDimensions = (tiff: TiffReader, width: number, height: number) => {
+  const pointer = findIfd0Entry(tiff, TAG_EXIF_IFD);
+  if (pointer === null) return;
+  const exifIfd = tiff.u32(pointer + 8);
+
+  for (const [tag, value] of [[TAG_PIXEL_X_DIMENSION, width], [TAG_PIXEL_Y_DIMENSION, height]]) {
+    const entry = findEntry(tiff, exifIfd, tag);
+    if (entry === null) continue;
+    if (tiff.u16(entry + 2) === 3) {
+      tiff.view.setUint16(tiff.base + entry + 8, value, tiff.little);
+    } else {
+      tiff.view.setUint32(tiff.base + entry + 8, value, tiff.little);
+    }
+  }
+};
+
+// Prepares a source EXIF segment for a new output image: orientation is reset
+// to 1 (the pixels are already upright, or viewers would rotate twice), the
+// thumbnail of the original is dropped, the pixel dimensions are set to the
+// output size and GPS is optionally removed.
+export const sanitizeExifSegment = (
+  segment: Uint8Array,
+  options: { stripGps: boolean; width: number; height: number }
+): Uint8Array => {
+  const bytes = segment.slice();
+  const tiff = createTiffReader(bytes);
+  if (!tiff) return bytes;
+
+  const orientation = findIfd0Entry(tiff, TAG_ORIENTATION);
+  if (orientation !== null) {
+    tiff.view.setUint16(tiff.base + orientation + 8, 1, tiff.little);
+  }
+
+  try {
+    removeThumbnail(tiff, bytes);
+    setPixelDimensions(tiff, options.width, options.height);
+  } catch {
+    // Offsets pointing outside the segment: leave the rest as it is
+  }
+  if (options.stripGps) removeGps(tiff, bytes);
+  return bytes;
+};
+
+// Smallest valid EXIF segment: big-endian TIFF header and an empty IFD0
+const createEmptyExifSegment = (): Uint8Array => {
+  const tiff = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 0, 0, 0, 0, 0];
+  const payload = [...Array.from(EXIF_HEADER, ch => ch.charCodeAt(0)), ...tiff];
+  const length = payload.length + 2;
+  return new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff, ...payload]);
+};
+
+// Sets ASCII tags (e.g. Artist, Copyright) in IFD0 of an EXIF segment, creating
+// the segment if there is none. IFD0 is rebuilt at the end of the segment with
+// the new values appended after it; everything else keeps its offset.
+export const setExifAsciiTags = (segment: Uint8Array | null, tags: Record<number, string>): Uint8Array => {
+  const source = segment ?? createEmptyExifSegment();
+  const tiff = createTiffReader(source);
+  if (!tiff) return source;
+
+  const encoder = new TextEncoder();
+  const newTags = Object.entries(tags)
+    .filter(([, value]) => value.length > 0)
+    .map(([tag, value]) => ({ tag: Number(tag), value: encoder.encode(`${value}\0`) }));
+
+  // Keep the existing entries (raw 12-byte records) except the ones being replaced
+  const oldIfd = tiff.u32(4);
+  const oldCount = tiff.u16(oldIfd);
+  const nextIfd = tiff.u32(oldIfd + 2 + oldCount * 12);
+  const kept: { tag: number; raw: Uint8Array | null; value?: Uint8Array }[] = [];
+  for (let i = 0; i < oldCount; i++) {
+    const entry = oldIfd + 2 + i * 12;
+    const tag = tiff.u16(entry);
+    if (!newTags.some(t => t.tag === tag)) kept.push({ tag, raw: source.subarray(tiff.base + entry, tiff.base + entry + 12) });
+  }
+  const entries = [...kept, ...newTags.map(t => ({ tag: t.tag, raw: null, value: t.value }))].sort((a, b) => a.tag - b.tag);
+
+  const tiffLength = source.length - tiff.base;
+  const ifdOffset = tiffLength + (tiffLength % 2); // IFDs start on a word boundary
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const valuesSize = newTags.reduce((sum, t) => sum + (t.value.length > 4 ? t.value.length + (t.value.length % 2) : 0), 0);
+  const total = tiff.base + ifdOffset + ifdSize + valuesSize;
+  if (total - 2 > 0xffff) return source; // Would not fit in a single APP1 segment
+
+  const output = new Uint8Array(total);
+  output.set(source);
+  const view = new DataView(output.buffer);
+  const at = (offset: number) => tiff.base + offset;
+
+  view.setUint16(2, total - 2); // Segment length
+  view.setUint32(at(4), ifdOffset, tiff.little);
+  view.setUint16(at(ifdOffset), entries.length, tiff.little);
+
+  let valueOffset = ifdOffset + ifdSize;
+  entries.forEach((entry, i) => {
+    const position = at(ifdOffset + 2 + i * 12);
+    if (entry.raw) {
+      output.set(entry.raw, position);
+      return;
+    }
+    const value = entry.value!;
+    view.setUint16(position, entry.tag, tiff.little);
+    view.setUint16(position + 2, 2, tiff.little); // ASCII
+    view.setUint32(position + 4, value.length, tiff.little);
+    if (value.length <= 4) {
+      output.set(value, position + 8);
+    } else {
+      view.setUint32(position + 8, valueOffset, tiff.little);
+      output.set(value, at(valueOffset));
+      valueOffset += value.length + (value.length % 2);
+    }
+  });
+  view.setUint32(at(ifdOffset + 2 + entries.length * 12), nextIfd, tiff.little);
+
+  return output;
+};
+
+export const createXmpSegment = (packet: string): Uint8Array => {
+  const payload = new TextEncoder().encode(XMP_HEADER + packet);
+  const length = payload.length + 2;
+  const segment = new Uint8Array(payload.length + 4);
+  segment.set([0xff, 0xe1, length >> 8, length & 0xff]);
+  segment.set(payload, 4);
+  return segment;
+};
+
+const XMP_GPS_PATTERN = /exif:GPS(Latitude|Longitude|Altitude)/;
+
+// Selects the EXIF, XMP and IPTC segments of a source JPEG to carry over.
+// ICC profiles are deliberately left out: the canvas has already converted
+// the pixels to sRGB, so the original profile would no longer match.
+export const extractMetadataSegments = (
+  info: JpegInfo,
+  options: { stripGps: boolean; width: number; height: number }
+): Uint8Array[] => {
+  const result: Uint8Array[] = [];
+
+  for (const segment of info.segments) {
+    if (isExifSegment(segment)) {
+      result.push(sanitizeExifSegment(segment.bytes, options));
+    } else if (isXmpSegment(segment)) {
+      // One character per byte, so offsets in the string match offsets in the segment
+      const xmp = new TextDecoder('latin1').decode(segment.bytes.subarray(4));
+      // XMP can duplicate the location; without a full XMP editor the safe option is to drop the packet
+      if (options.stripGps && XMP_GPS_PATTERN.test(xmp)) continue;
+      // Reset orientation in place (single digit, so the segment length is unchanged)
+      const bytes = segment.bytes.slice();
+      for (const match of xmp.matchAll(/tiff:Orientation(="|>)\d/g)) {
+        bytes[4 + match.index! + match[0].length - 1] = '1'.charCodeAt(0);
+      }
+      result.push(bytes);
+    } else if (isIptcSegment(segment)) {
+      result.push(segment.bytes.slice());
+    }
+  }
+
+  return result;
+};
+
+// Inserts segments right after SOI and any JFIF APP0 header of an encoded JPEG
+export const insertJpegSegments = (jpeg: Uint8Array, segments: Uint8Array[]): Uint8Array => {
+  if (segments.length === 0) return jpeg;
+
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+
+  const extra = segments.reduce((sum, s) => sum + s.length, 0);
+  const output = new Uint8Array(jpeg.length + extra);
+  output.set(jpeg.subarray(0, insertAt), 0);
+  let offset = insertAt;
+  for (const segment of segments) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  output.set(jpeg.subarray(insertAt), offset);
+  return output;
+};
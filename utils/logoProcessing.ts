@@ -0,0 +1,94 @@
+import { LogoProcessing } from '../types';
+import { getRasterBackend, RasterImage } from './raster';
+import { decodeImage, rasterizeSvgLogo, readFileAsDataURL, applyLogoProcessing, hasLogoProcessing } from './watermark';
+import { isSvgFile, readSvgLogo } from './svg';
+import { toHex } from './color';
+
+export const DEFAULT_LOGO_PROCESSING: LogoProcessing = {
+  removeBackground: false,
+  backgroundColor: '#ffffff',
+  tolerance: 15,
+  colorMode: 'original',
+  color: '#ffffff',
+  tintStrength: 60,
+};
+
+// Size of the thumbnail drawn for a processed SVG logo
+const SVG_PREVIEW_WIDTH = 256;
+
+const drawToCanvas = (image: RasterImage) => {
+  const canvas = getRasterBackend().createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  ctx.drawImage(image, 0, 0);
+  return { canvas, ctx };
+};
+
+// Guesses the background from the four corners (the usual white or colored
+// box around a JPEG logo). Returns null when the corners are already transparent.
+export const detectBackgroundColor = async (file: File): Promise<string | null> => {
+  const image = await decodeImage(file, file.name);
+  try {
+    const { ctx } = drawToCanvas(image);
+    const { data, width, height } = ctx.getImageData(0, 0, image.width, image.height);
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(i => i * 4);
+    if (corners.every(i => data[i + 3] < 128)) return null;
+    const average = (offset: number) => corners.reduce((sum, i) => sum + data[i + offset], 0) / corners.length;
+    return toHex(average(0), average(1), average(2));
+  } finally {
+    getRasterBackend().release(image);
+  }
+};
+
+// Applies background removal and recoloring to an uploaded bitmap logo and
+// returns the result as a PNG (so the new transparency survives). SVGs are
+// returned as they are: their processing is applied each time they are
+// rasterized, so they stay sharp at any mark size.
+export const processLogo = async (original: File, processing: LogoProcessing): Promise<File> => {
+  if (!hasLogoProcessing(processing) || isSvgFile(original)) return original;
+
+  const raster = getRasterBackend();
+  const image = await decodeImage(original, original.name);
+  try {
+    const { canvas } = drawToCanvas(image);
+    applyLogoProcessing(canvas, processing);
+    const blob = await raster.encode(canvas, 'image/png');
+    const baseName = original.name.substring(0, original.name.lastIndexOf('.')) || original.name;
+    return new File([blob], `${baseName}.png`, { type: 'image/png' });
+  } finally {
+    raster.release(image);
+  }
+};
+
+// Data URL for a logo's thumbnail. Processed SVGs are still the original
+// file, so their thumbnail is rendered with the processing applied.
+export const createLogoPreviewUrl = async (file: File, processing: LogoProcessing): Promise<string> => {
+  if (!hasLogoProcessing(processing) || !isSvgFile(file)) return readFileAsDataURL(file);
+
+  const raster = getRasterBackend();
+  const svg = await readSvgLogo(file, file.name);
+  const image = await rasterizeSvgLogo(svg, SVG_PREVIEW_WIDTH);
+  try {
+    const { canvas } = drawToCanvas(image);
+    applyLogoProcessing(canvas, processing);
+    return readFileAsDataURL(new File([await raster.encode(canvas, 'image/png')], file.name, { type: 'image/png' }));
+  } finally {
+    raster.release(image);
+  }
+};
+
+// Starting point for a fresh upload: the logo stays untouched, with the
+// detected background color ready in case the user turns removal on.
+// The CLI can ask for removal right away.
+export const prepareUploadedLogo = async (
+  original: File,
+  options: { removeBackground?: boolean } = {}
+): Promise<{ file: File; processing: LogoProcessing }> => {
+  const processing = { ...DEFAULT_LOGO_PROCESSING };
+  const background = await detectBackgroundColor(original);
+  if (background) {
+    processing.backgroundColor = background;
+    processing.removeBackground = options.removeBackground ?? false;
+  }
+  return { file: await processLogo(original, processing), processing };
+};
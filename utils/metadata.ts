@@ -0,0 +1,198 @@
+import { WatermarkSettings, RightsMetadata } from '../types';
+import { crc32 } from './crc32';
+import {
+  JpegInfo,
+  extractMetadataSegments,
+  insertJpegSegments,
+  setExifAsciiTags,
+  createXmpSegment,
+  isExifSegment,
+  isXmpSegment,
+  TAG_ARTIST,
+  TAG_COPYRIGHT,
+} from './jpeg';
+
+export const hasRightsMetadata = (metadata: RightsMetadata): boolean => {
+  return Object.values(metadata).some(value => value.trim().length > 0);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// XMP packet using the Dublin Core, XMP Rights and IPTC Core properties that
+// Lightroom, Photoshop, Bridge and most DAMs read for creator and rights info
+export const buildXmpPacket = (metadata: RightsMetadata): string => {
+  const creator = metadata.creator.trim();
+  const copyright = metadata.copyright.trim();
+  const contactUrl = metadata.contactUrl.trim();
+  const usageTerms = metadata.usageTerms.trim();
+
+  const properties = [
+    creator && `   <dc:creator><rdf:Seq><rdf:li>${escapeXml(creator)}</rdf:li></rdf:Seq></dc:creator>`,
+    copyright && `   <dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(copyright)}</rdf:li></rdf:Alt></dc:rights>`,
+    copyright && `   <xmpRights:Marked>True</xmpRights:Marked>`,
+    usageTerms && `   <xmpRights:UsageTerms><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(usageTerms)}</rdf:li></rdf:Alt></xmpRights:UsageTerms>`,
+    contactUrl && `   <xmpRights:WebStatement>${escapeXml(contactUrl)}</xmpRights:WebStatement>`,
+    contactUrl && `   <Iptc4xmpCore:CreatorContactInfo rdf:parseType="Resource"><Iptc4xmpCore:CiUrlWork>${escapeXml(contactUrl)}</Iptc4xmpCore:CiUrlWork></Iptc4xmpCore:CreatorContactInfo>`,
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"',
+    '    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/">',
+    ...properties,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+};
+
+const isSegment = (test: typeof isExifSegment) => (bytes: Uint8Array) => test({ marker: bytes[1], bytes });
+
+const writeJpegMetadata = (
+  jpeg: Uint8Array,
+  source: JpegInfo | null,
+  settings: WatermarkSettings,
+  rights: RightsMetadata | null,
+  width: number,
+  height: number
+): Uint8Array => {
+  let segments = source && settings.preserveMetadata
+    ? extractMetadataSegments(source, { stripGps: settings.stripGps, width, height })
+    : [];
+
+  if (rights) {
+    // Rights go into the carried EXIF (or a new one); our XMP packet replaces the source one
+    const exif = segments.find(isSegment(isExifSegment)) ?? null;
+    const others = segments.filter(s => !isSegment(isExifSegment)(s) && !isSegment(isXmpSegment)(s));
+    segments = [
+      setExifAsciiTags(exif, { [TAG_ARTIST]: rights.creator.trim(), [TAG_COPYRIGHT]: rights.copyright.trim() }),
+      createXmpSegment(buildXmpPacket(rights)),
+      ...others,
+    ];
+  }
+
+  return insertJpegSegments(jpeg, segments);
+};
+
+const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(Array.from(type, ch => ch.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Uncompressed international text chunk (UTF-8)
+const createITxtChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const keywordBytes = encoder.encode(keyword);
+  const textBytes = encoder.encode(text);
+  // keyword \0, compression flag, compression method, language \0, translated keyword \0, text
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data.set(textBytes, keywordBytes.length + 5);
+  return createPngChunk('iTXt', data);
+};
+
+// Inserts text chunks right after IHDR, ahead of the image data
+const writePngMetadata = (png: Uint8Array, rights: RightsMetadata): Uint8Array => {
+  const ihdrEnd = 8 + 12 + new DataView(png.buffer, png.byteOffset).getUint32(8);
+  const chunks = [
+    createITxtChunk('XML:com.adobe.xmp', buildXmpPacket(rights)),
+    rights.creator.trim() && createITxtChunk('Author', rights.creator.trim()),
+    rights.copyright.trim() && createITxtChunk('Copyright', rights.copyright.trim()),
+    rights.usageTerms.trim() && createITxtChunk('Disclaimer', rights.usageTerms.trim()),
+  ].filter((chunk): chunk is Uint8Array => !!chunk);
+
+  const extra = chunks.reduce((sum, c) => sum + c.length, 0);
+  const output = new Uint8Array(png.length + extra);
+  output.set(png.subarray(0, ihdrEnd), 0);
+  let offset = ihdrEnd;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  output.set(png.subarray(ihdrEnd), offset);
+  return output;
+};
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// Adds an XMP chunk to a WebP file. Metadata requires the extended (VP8X)
+// layout, so simple lossy/lossless files get a VP8X header first.
+const writeWebpMetadata = (webp: Uint8Array, rights: RightsMetadata, width: number, height: number): Uint8Array => {
+  if (fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') return webp;
+
+  const XMP_FLAG = 0x04;
+  const ALPHA_FLAG = 0x10;
+  const firstChunk = fourCC(webp, 12);
+  let body = webp.subarray(12);
+
+  if (firstChunk === 'VP8X') {
+    body = body.slice();
+    body[8] |= XMP_FLAG;
+  } else {
+    // Lossless bitstreams carry an "alpha is used" bit in their header
+    const hasAlpha = firstChunk === 'VP8L' && (webp[12 + 8 + 4] & 0x10) !== 0;
+    const vp8x = new Uint8Array(18);
+    vp8x.set(Array.from('VP8X', ch => ch.charCodeAt(0)), 0);
+    new DataView(vp8x.buffer).setUint32(4, 10, true);
+    vp8x[8] = XMP_FLAG | (hasAlpha ? ALPHA_FLAG : 0);
+    // Canvas width and height minus one, 24-bit little endian
+    vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 12);
+    vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 15);
+    const extended = new Uint8Array(vp8x.length + body.length);
+    extended.set(vp8x, 0);
+    extended.set(body, vp8x.length);
+    body = extended;
+  }
+
+  const xmp = new TextEncoder().encode(buildXmpPacket(rights));
+  const padded = xmp.length + (xmp.length % 2);
+  const xmpChunk = new Uint8Array(8 + padded);
+  xmpChunk.set(Array.from('XMP ', ch => ch.charCodeAt(0)), 0);
+  new DataView(xmpChunk.buffer).setUint32(4, xmp.length, true);
+  xmpChunk.set(xmp, 8);
+
+  const output = new Uint8Array(12 + body.length + xmpChunk.length);
+  output.set(webp.subarray(0, 12), 0);
+  output.set(body, 12);
+  output.set(xmpChunk, 12 + body.length);
+  new DataView(output.buffer).setUint32(4, output.length - 8, true); // RIFF size
+  return output;
+};
+
+// Writes the carried source metadata and the rights information into an
+// encoded image. Returns the blob untouched when there is nothing to add.
+export const embedMetadata = async (
+  blob: Blob,
+  settings: WatermarkSettings,
+  source: JpegInfo | null,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const rights = hasRightsMetadata(settings.metadata) ? settings.metadata : null;
+  const carrySource = settings.preserveMetadata && settings.outputFormat === 'image/jpeg' && source !== null;
+  if (!rights && !carrySource) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let output: Uint8Array = bytes;
+
+  if (settings.outputFormat === 'image/jpeg') {
+    output = writeJpegMetadata(bytes, source, settings, rights, width, height);
+  } else if (rights && settings.outputFormat === 'image/png') {
+    output = writePngMetadata(bytes, rights);
+  } else if (rights && settings.outputFormat === 'image/webp') {
+    output = writeWebpMetadata(bytes, rights, width, height);
+  }
+
+  return new Blob([output], { type: settings.outputFormat });
+};
@@ -0,0 +1,107 @@
+import { AnchorPosition } from '../types';
+import { getRasterBackend, RasterCanvas } from './raster';
+
+export const AUTO_ANCHORS: AnchorPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+// Regions are measured on a small copy of the image; fine detail below this
+// scale does not change which region reads as calm
+const ANALYSIS_SIZE = 256;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Region statistics of a photo, for rectangles given in output pixels
+export interface CanvasAnalysis {
+  // Lower means calmer. Combines edge density (mean gradient) with luminance
+  // spread, so flat sky or wall scores low while faces, horizons and texture score high.
+  busyness: (rect: Rect) => number;
+  // Mean luminance, 0 (black) to 255 (white)
+  luminance: (rect: Rect) => number;
+}
+
+// Builds a small luminance/edge map of the canvas as drawn so far
+export const analyzeCanvas = (canvas: RasterCanvas): CanvasAnalysis => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(canvas.width, canvas.height));
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+
+  const small = getRasterBackend().createCanvas(width, height);
+  const ctx = small.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  ctx.drawImage(canvas as unknown as CanvasImageSource, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const edges = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = x + 1 < width ? luma[i + 1] - luma[i] : 0;
+      const dy = y + 1 < height ? luma[i + width] - luma[i] : 0;
+      edges[i] = Math.abs(dx) + Math.abs(dy);
+    }
+  }
+
+  const regionStats = (rect: Rect) => {
+    const x0 = Math.max(0, Math.floor(rect.x * scale));
+    const y0 = Math.max(0, Math.floor(rect.y * scale));
+    const x1 = Math.min(width, Math.ceil((rect.x + rect.width) * scale));
+    const y1 = Math.min(height, Math.ceil((rect.y + rect.height) * scale));
+    const count = Math.max(0, x1 - x0) * Math.max(0, y1 - y0);
+    if (count === 0) return null;
+
+    let edgeSum = 0;
+    let lumaSum = 0;
+    let lumaSquares = 0;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = y * width + x;
+        edgeSum += edges[i];
+        lumaSum += luma[i];
+        lumaSquares += luma[i] * luma[i];
+      }
+    }
+    const mean = lumaSum / count;
+    return { edges: edgeSum / count, mean, deviation: Math.sqrt(Math.max(0, lumaSquares / count - mean * mean)) };
+  };
+
+  return {
+    busyness: (rect) => {
+      const stats = regionStats(rect);
+      return stats ? stats.edges + stats.deviation * 0.5 : Infinity;
+    },
+    luminance: (rect) => regionStats(rect)?.mean ?? 128,
+  };
+};
+
+// Picks the calmest of the allowed anchors for a mark. Anchors already taken
+// by other auto-placed layers are skipped while alternatives remain.
+export const pickCalmestAnchor = (
+  analysis: CanvasAnalysis,
+  candidates: AnchorPosition[],
+  taken: Set<AnchorPosition>,
+  rectFor: (anchor: AnchorPosition) => Rect
+): AnchorPosition => {
+  const allowed = candidates.length > 0 ? candidates : AUTO_ANCHORS;
+  const free = allowed.filter(anchor => !taken.has(anchor));
+  const pool = free.length > 0 ? free : allowed;
+
+  let best = pool[0];
+  let bestScore = Infinity;
+  for (const anchor of pool) {
+    const value = analysis.busyness(rectFor(anchor));
+    if (value < bestScore) {
+      best = anchor;
+      bestScore = value;
+    }
+  }
+  return best;
+};
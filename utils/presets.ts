@@ -0,0 +1,88 @@
+import { WatermarkSettings } from '../types';
+import { migrateSettings, serializeSettings, SETTINGS_VERSION } from './settings';
+import { triggerDownload } from './download';
+
+export const PRESETS_STORAGE_KEY = 'maasai-watermark-presets';
+export const PRESET_FILE_TYPE = 'maasai-watermark-presets';
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: WatermarkSettings;
+}
+
+// Entries that are not objects are skipped; everything else is migrated field by field
+const readPresets = (raw: unknown): SettingsPreset[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+    .map((entry, index) => ({
+      id: typeof entry.id === 'string' ? entry.id : crypto.randomUUID(),
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `Preset ${index + 1}`,
+      settings: migrateSettings(entry.settings),
+    }));
+};
+
+export const loadPresets = (): SettingsPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (saved) {
+      return readPresets(JSON.parse(saved)?.presets);
+    }
+  } catch (e) {
+    console.error("Failed to load presets", e);
+  }
+  return [];
+};
+
+const toFile = (presets: SettingsPreset[]) => ({
+  type: PRESET_FILE_TYPE,
+  version: SETTINGS_VERSION,
+  presets: presets.map(preset => ({ id: preset.id, name: preset.name, settings: serializeSettings(preset.settings) })),
+});
+
+export const savePresets = (presets: SettingsPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(toFile(presets)));
+  } catch (e) {
+    console.error("Failed to save presets", e);
+  }
+};
+
+// Appends " (2)", " (3)", ... until the name is not taken
+export const getUniquePresetName = (name: string, presets: SettingsPreset[]): string => {
+  const taken = new Set(presets.map(preset => preset.name.toLowerCase()));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+};
+
+export const exportPresets = (presets: SettingsPreset[]) => {
+  const json = JSON.stringify(toFile(presets), null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  triggerDownload(url, `watermark-presets-${new Date().toISOString().slice(0, 10)}.json`);
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+// Reads an exported presets file. Imported presets always get fresh ids, so
+// importing the same file twice adds copies rather than overwriting.
+export const parsePresetFile = (json: string): SettingsPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || (parsed as { type?: unknown }).type !== PRESET_FILE_TYPE) {
+    throw new Error('This file is not a watermark presets export.');
+  }
+
+  const presets = readPresets((parsed as { presets?: unknown }).presets);
+  if (presets.length === 0) {
+    throw new Error('The file does not contain any presets.');
+  }
+  return presets.map(preset => ({ ...preset, id: crypto.randomUUID() }));
+};
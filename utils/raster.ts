@@ -0,0 +1,138 @@
+// The raster operations the render pipeline depends on. Layout and compositing
+// only talk to this interface, so the same code runs in the browser (below,
+// OffscreenCanvas + createImageBitmap, or DOM canvases on the main thread of
+// browsers without OffscreenCanvas) and in the Node CLI (@napi-rs/canvas).
+
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface RasterCanvas {
+  width: number;
+  height: number;
+  getContext(contextId: '2d'): DrawingContext | null;
+}
+
+// Anything drawImage accepts that also knows its own size
+export type RasterImage = CanvasImageSource & { width: number; height: number };
+
+export interface RasterBackend {
+  createCanvas: (width: number, height: number) => RasterCanvas;
+  // Decodes an encoded image, applying its EXIF orientation where the decoder supports it
+  decodeImage: (data: Blob) => Promise<RasterImage>;
+  // Rasterizes SVG markup at exactly width x height pixels
+  decodeSvg: (markup: string, width: number, height: number) => Promise<RasterImage>;
+  // One line of text in a CSS font shorthand, on a tight transparent image (see drawTextLine)
+  renderText: (text: string, font: string, color: string) => Promise<RasterImage>;
+  // Turns a finished canvas into an image that can be drawn elsewhere
+  toImage: (canvas: RasterCanvas) => Promise<RasterImage>;
+  encode: (canvas: RasterCanvas, type: string, quality?: number) => Promise<Blob>;
+  // Makes sure a font is ready before text is measured (CSS font shorthand)
+  loadFont: (font: string, sample: string) => Promise<void>;
+  // Frees the memory behind a decoded image early, where the platform allows it
+  release: (image: RasterImage) => void;
+}
+
+// The image is as tall as the font's ascent plus descent, whatever the
+// characters, so lines with different text still line up
+export const drawTextLine = (createCanvas: RasterBackend['createCanvas'], text: string, font: string, color: string): RasterCanvas => {
+  const measure = createCanvas(1, 1).getContext('2d');
+  if (!measure) throw new Error('System memory low. Could not create drawing context.');
+  measure.font = font;
+  const metrics = measure.measureText(text);
+  const ascent = metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent;
+  const descent = metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent;
+
+  const canvas = createCanvas(Math.max(1, Math.ceil(metrics.width)), Math.max(1, Math.ceil(ascent + descent)));
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, 0, ascent);
+  return canvas;
+};
+
+// createImageBitmap can't decode SVG, so it goes through an <img>. That only
+// exists on the main thread; render workers ask the main thread instead.
+const drawSvgMarkup = async (markup: string, canvas: RasterCanvas) => {
+  if (typeof Image === 'undefined') throw new Error('SVG logos can only be rasterized on the main thread.');
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const browserBackend: RasterBackend = {
+  createCanvas: (width, height) => new OffscreenCanvas(width, height),
+  decodeImage: (data) => createImageBitmap(data, { imageOrientation: 'from-image' }),
+  decodeSvg: async (markup, width, height) => {
+    const canvas = new OffscreenCanvas(width, height);
+    await drawSvgMarkup(markup, canvas);
+    return canvas.transferToImageBitmap();
+  },
+  // Web fonts are loaded by the document, so this too is main-thread only
+  renderText: async (text, font, color) => {
+    if (typeof document === 'undefined') throw new Error('Text can only be rasterized on the main thread.');
+    await document.fonts.load(font, text);
+    return (drawTextLine(browserBackend.createCanvas, text, font, color) as OffscreenCanvas).transferToImageBitmap();
+  },
+  toImage: async (canvas) => (canvas as OffscreenCanvas).transferToImageBitmap(),
+  encode: (canvas, type, quality) => (canvas as OffscreenCanvas).convertToBlob({ type, quality }),
+  loadFont: async (font, sample) => {
+    // Web fonts are loaded lazily by the document; workers never rasterize text
+    if (typeof document !== 'undefined') await document.fonts.load(font, sample);
+  },
+  release: (image) => {
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) image.close();
+  },
+};
+
+// A copy of the canvas, so it can't change under whoever draws the image
+const copyDomCanvas = async (canvas: RasterCanvas): Promise<RasterImage> => {
+  const source = canvas as HTMLCanvasElement;
+  if (typeof createImageBitmap !== 'undefined') return createImageBitmap(source);
+  const copy = domBackend.createCanvas(source.width, source.height) as HTMLCanvasElement;
+  copy.getContext('2d')!.drawImage(source, 0, 0);
+  return copy;
+};
+
+// Main thread of browsers without OffscreenCanvas: the same operations on
+// <canvas> elements. The render pool also falls back to the main thread there.
+const domBackend: RasterBackend = {
+  ...browserBackend,
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  decodeSvg: async (markup, width, height) => {
+    const canvas = domBackend.createCanvas(width, height);
+    await drawSvgMarkup(markup, canvas);
+    return canvas as HTMLCanvasElement;
+  },
+  renderText: async (text, font, color) => {
+    await document.fonts.load(font, text);
+    return drawTextLine(domBackend.createCanvas, text, font, color) as HTMLCanvasElement;
+  },
+  toImage: copyDomCanvas,
+  encode: (canvas, type, quality) => new Promise((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('The browser could not encode the image.')),
+      type,
+      quality
+    );
+  }),
+};
+
+let activeBackend = typeof OffscreenCanvas !== 'undefined' ? browserBackend : domBackend;
+
+export const getRasterBackend = (): RasterBackend => activeBackend;
+
+// Swaps the backend for the whole pipeline (used by the CLI at startup)
+export const setRasterBackend = (backend: RasterBackend) => {
+  activeBackend = backend;
+};
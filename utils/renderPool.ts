@@ -0,0 +1,182 @@
+import { WatermarkSettings, ImageOverrides, RenderOutput, CaptionContext } from '../types';
+import { renderWatermarkedImage, renderTextWatermark, LayerMarks } from './watermark';
+import { getRasterBackend } from './raster';
+import type { WorkerRequest, WorkerResponse, MainThreadRaster } from './renderWorker';
+
+export class BatchCancelledError extends Error {
+  constructor() {
+    super('Batch processing was cancelled.');
+    this.name = 'BatchCancelledError';
+  }
+}
+
+export interface RenderPool {
+  concurrency: number;
+  isCancelled: () => boolean;
+  render: (file: File, settings: WatermarkSettings, overrides: ImageOverrides, caption: CaptionContext, onStart?: () => void) => Promise<RenderOutput>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+interface Job {
+  id: number;
+  file: File;
+  settings: WatermarkSettings;
+  overrides: ImageOverrides;
+  caption: CaptionContext;
+  onStart?: () => void;
+  resolve: (output: RenderOutput) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  worker: Worker | null;
+  job: Job | null;
+}
+
+const supportsWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Leave a core for the UI, and cap it: every in-flight job holds a full-size
+// decoded image, so more workers mostly means more memory.
+const defaultConcurrency = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+// Runs render jobs on a bounded set of Web Workers. Jobs queue up in order and
+// are handed out as workers free up; pausing only stops new jobs from starting.
+// Falls back to rendering one image at a time on the main thread when workers
+// or OffscreenCanvas are unavailable (drawing on DOM canvases, see raster.ts).
+export const createRenderPool = (marks: LayerMarks): RenderPool => {
+  const useWorkers = supportsWorkers();
+  const concurrency = useWorkers ? defaultConcurrency() : 1;
+  const slots: Slot[] = Array.from({ length: concurrency }, () => ({ worker: null, job: null }));
+  const queue: Job[] = [];
+  let nextJobId = 0;
+  let paused = false;
+  let cancelled = false;
+
+  const finish = (slot: Slot) => {
+    slot.job = null;
+    pump();
+  };
+
+  // SVG logos and web-font text need the document, which workers don't have;
+  // the bitmap is handed back without a copy
+  const rasterizeForWorker = (worker: Worker, requestId: number, raster: MainThreadRaster) => {
+    const backend = getRasterBackend();
+    const image = raster.op === 'svg' ? backend.decodeSvg(raster.markup, raster.width, raster.height)
+      : raster.op === 'text' ? backend.renderText(raster.text, raster.font, raster.color)
+      : renderTextWatermark(raster.text, raster.targetWidth).then(canvas => backend.toImage(canvas));
+    image
+      .then((bitmap) => {
+        const reply: WorkerRequest = { type: 'raster-done', requestId, image: bitmap };
+        worker.postMessage(reply, [bitmap as ImageBitmap]);
+      })
+      .catch((error) => {
+        const reply: WorkerRequest = { type: 'raster-error', requestId, message: error instanceof Error ? error.message : 'Rendering failed due to unknown error.' };
+        worker.postMessage(reply);
+      });
+  };
+
+  const spawnWorker = (slot: Slot): Worker => {
+    const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+    const init: WorkerRequest = { type: 'init', marks: Array.from(marks.entries()) };
+    worker.postMessage(init);
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      if (e.data.type === 'raster') {
+        rasterizeForWorker(worker, e.data.requestId, e.data.raster);
+        return;
+      }
+
+      const job = slot.job;
+      if (!job || job.id !== e.data.jobId) return;
+      if (e.data.type === 'done') {
+        const { type, jobId, ...output } = e.data;
+        job.resolve(output);
+      } else {
+        job.reject(new Error(e.data.message));
+      }
+      finish(slot);
+    };
+
+    // A crashed worker (e.g. out of memory) fails its job and is replaced on next use
+    worker.onerror = (e) => {
+      e.preventDefault();
+      worker.terminate();
+      slot.worker = null;
+      slot.job?.reject(new Error(`Failed to process "${slot.job.file.name}". The image might be too large for the available memory.`));
+      finish(slot);
+    };
+
+    return worker;
+  };
+
+  const start = (slot: Slot, job: Job) => {
+    slot.job = job;
+    job.onStart?.();
+
+    if (useWorkers) {
+      slot.worker ??= spawnWorker(slot);
+      const request: WorkerRequest = { type: 'render', jobId: job.id, file: job.file, settings: job.settings, overrides: job.overrides, caption: job.caption };
+      slot.worker.postMessage(request);
+      return;
+    }
+
+    renderWatermarkedImage(job.file, job.settings, marks, job.overrides, job.caption)
+      .then(output => cancelled ? job.reject(new BatchCancelledError()) : job.resolve(output))
+      .catch(error => job.reject(error))
+      .finally(() => finish(slot));
+  };
+
+  const pump = () => {
+    if (paused || cancelled) return;
+    for (const slot of slots) {
+      if (queue.length === 0) return;
+      if (!slot.job) start(slot, queue.shift()!);
+    }
+  };
+
+  const render = (file: File, settings: WatermarkSettings, overrides: ImageOverrides, caption: CaptionContext, onStart?: () => void) => {
+    return new Promise<RenderOutput>((resolve, reject) => {
+      if (cancelled) {
+        reject(new BatchCancelledError());
+        return;
+      }
+      queue.push({ id: nextJobId++, file, settings, overrides, caption, onStart, resolve, reject });
+      pump();
+    });
+  };
+
+  const dispose = () => {
+    slots.forEach(slot => {
+      slot.worker?.terminate();
+      slot.worker = null;
+    });
+  };
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    queue.splice(0).forEach(job => job.reject(new BatchCancelledError()));
+
+    // Stop in-flight work immediately; the main-thread fallback can only be abandoned
+    if (useWorkers) {
+      slots.forEach(slot => {
+        slot.job?.reject(new BatchCancelledError());
+        slot.job = null;
+      });
+      dispose();
+    }
+  };
+
+  return {
+    concurrency,
+    isCancelled: () => cancelled,
+    render,
+    pause: () => { paused = true; },
+    resume: () => { paused = false; pump(); },
+    cancel,
+    dispose,
+  };
+};
@@ -0,0 +1,74 @@
+import { WatermarkSettings, ImageOverrides, RenderOutput, CaptionContext, TextWatermarkSettings } from '../types';
+import { renderWatermarkedImage, setTextMarkRenderer, LayerMarks, LayerMark } from './watermark';
+import { getRasterBackend, setRasterBackend, RasterImage } from './raster';
+
+// Rasterization that needs the document: SVG goes through an <img>, and web
+// fonts are only loaded there. Workers send these to the main thread and get a bitmap back.
+export type MainThreadRaster =
+  | { op: 'svg'; markup: string; width: number; height: number }
+  | { op: 'text'; text: string; font: string; color: string }
+  | { op: 'text-mark'; text: TextWatermarkSettings; targetWidth: number };
+
+// Messages exchanged between the render pool and its workers
+export type WorkerRequest =
+  | { type: 'init'; marks: [string, LayerMark][] }
+  | { type: 'render'; jobId: number; file: File; settings: WatermarkSettings; overrides: ImageOverrides; caption: CaptionContext }
+  | { type: 'raster-done'; requestId: number; image: RasterImage }
+  | { type: 'raster-error'; requestId: number; message: string };
+
+export type WorkerResponse =
+  | ({ type: 'done'; jobId: number } & RenderOutput)
+  | { type: 'error'; jobId: number; message: string }
+  | { type: 'raster'; requestId: number; raster: MainThreadRaster };
+
+// The DOM lib types `self` as a Window; inside a dedicated worker it behaves like a Worker
+const scope = self as unknown as Worker;
+
+let marks: LayerMarks = new Map();
+
+const rasterRequests = new Map<number, { resolve: (image: RasterImage) => void; reject: (error: Error) => void }>();
+let nextRasterRequestId = 0;
+
+const rasterOnMainThread = (raster: MainThreadRaster) => new Promise<RasterImage>((resolve, reject) => {
+  const requestId = nextRasterRequestId++;
+  rasterRequests.set(requestId, { resolve, reject });
+  const response: WorkerResponse = { type: 'raster', requestId, raster };
+  scope.postMessage(response);
+});
+
+setRasterBackend({
+  ...getRasterBackend(),
+  decodeSvg: (markup, width, height) => rasterOnMainThread({ op: 'svg', markup, width, height }),
+  renderText: (text, font, color) => rasterOnMainThread({ op: 'text', text, font, color }),
+});
+setTextMarkRenderer((text, targetWidth) => rasterOnMainThread({ op: 'text-mark', text, targetWidth }));
+
+scope.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'init') {
+    marks = new Map(request.marks);
+    return;
+  }
+
+  if (request.type === 'raster-done' || request.type === 'raster-error') {
+    const pending = rasterRequests.get(request.requestId);
+    rasterRequests.delete(request.requestId);
+    if (request.type === 'raster-done') pending?.resolve(request.image);
+    else pending?.reject(new Error(request.message));
+    return;
+  }
+
+  try {
+    const output = await renderWatermarkedImage(request.file, request.settings, marks, request.overrides, request.caption);
+    const response: WorkerResponse = { type: 'done', jobId: request.jobId, ...output };
+    scope.postMessage(response);
+  } catch (error) {
+    const response: WorkerResponse = {
+      type: 'error',
+      jobId: request.jobId,
+      message: error instanceof Error ? error.message : "Processing failed due to unknown error.",
+    };
+    scope.postMessage(response);
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { computeOutputLayout } from './resize';
+import { DEFAULT_FRAME, DEFAULT_RESIZE } from './settings';
+import { FrameSettings, ResizeSettings } from '../types';
+
+const resize = (changes: Partial<ResizeSettings>): ResizeSettings => ({ ...DEFAULT_RESIZE, ...changes });
+
+const frame = (border: number, captionHeight: number, position: FrameSettings['caption']['position'] = 'bottom'): FrameSettings => ({
+  ...DEFAULT_FRAME,
+  enabled: true,
+  border,
+  caption: { ...DEFAULT_FRAME.caption, position, height: captionHeight },
+});
+
+describe('computeOutputLayout', () => {
+  it('keeps the original size without a frame', () => {
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'original' }));
+    expect(layout).toMatchObject({ width: 3000, height: 2000, padded: false, caption: null });
+    expect(layout.area).toEqual({ x: 0, y: 0, width: 3000, height: 2000 });
+    expect(layout.target).toEqual(layout.area);
+  });
+
+  it('grows the canvas by the border and the caption strip', () => {
+    // Framed long edge 3333.3: a 5% border is 167px and a 10% caption 333px
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'original' }), frame(5, 10));
+    expect(layout).toMatchObject({ width: 3334, height: 2667 });
+    expect(layout.area).toEqual({ x: 167, y: 167, width: 3000, height: 2000 });
+    expect(layout.caption).toEqual({ x: 167, y: 2167, width: 3000, height: 333 });
+  });
+
+  it('puts a top caption between the border and the photo', () => {
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'original' }), frame(5, 10, 'top'));
+    expect(layout.area).toEqual({ x: 167, y: 500, width: 3000, height: 2000 });
+    expect(layout.caption).toEqual({ x: 167, y: 167, width: 3000, height: 333 });
+  });
+
+  it('leaves the caption out when its position is none', () => {
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'original' }), frame(5, 10, 'none'));
+    expect(layout.caption).toBeNull();
+    expect(layout).toMatchObject({ width: 3334, height: 2334 });
+  });
+
+  it('fits the framed output within the max long edge', () => {
+    expect(computeOutputLayout(3000, 2000, resize({ mode: 'long-edge', longEdge: 1000 }))).toMatchObject({ width: 1000, height: 667 });
+    const framed = computeOutputLayout(3000, 2000, resize({ mode: 'long-edge', longEdge: 1000 }), frame(5, 10));
+    expect(Math.max(framed.width, framed.height)).toBe(1000);
+  });
+
+  it('never enlarges in fit mode', () => {
+    const layout = computeOutputLayout(800, 600, resize({ mode: 'exact', width: 1920, height: 1080, fit: 'fit' }));
+    expect(layout).toMatchObject({ width: 800, height: 600 });
+  });
+
+  it('letterboxes into the exact box in fill mode', () => {
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'exact', width: 1000, height: 1000, fit: 'fill' }));
+    expect(layout).toMatchObject({ width: 1000, height: 1000, padded: true });
+    expect(layout.target).toEqual({ x: 0, y: 167, width: 1000, height: 667 });
+  });
+
+  it('crops the photo to the area left inside the frame of an exact box', () => {
+    // 5% border is 54px and 10% caption 108px of the 1080px long edge
+    const layout = computeOutputLayout(3000, 2000, resize({ mode: 'preset', preset: 'instagram-square', fit: 'crop' }), frame(5, 10));
+    expect(layout).toMatchObject({ width: 1080, height: 1080, padded: false });
+    expect(layout.area).toEqual({ x: 54, y: 54, width: 972, height: 864 });
+    expect(layout.caption).toEqual({ x: 54, y: 918, width: 972, height: 108 });
+    expect(layout.target).toEqual(layout.area);
+    expect(layout.source).toEqual({ x: 375, y: 0, width: 2250, height: 2000 });
+  });
+
+  it.each([
+    { width: 16, height: 4000 },
+    { width: 4000, height: 16 },
+    { width: 16, height: 16 },
+  ])('shrinks a large frame to leave photo room in a $width x $height box', ({ width, height }) => {
+    for (const fit of ['crop', 'fill'] as const) {
+      const layout = computeOutputLayout(3000, 2000, resize({ mode: 'exact', width, height, fit }), frame(20, 30));
+      expect(layout).toMatchObject({ width, height });
+      expect(layout.area.width).toBeGreaterThanOrEqual(1);
+      expect(layout.area.height).toBeGreaterThanOrEqual(1);
+      expect(layout.target.width).toBeGreaterThanOrEqual(1);
+      expect(layout.target.height).toBeGreaterThanOrEqual(1);
+      expect(layout.area.x + layout.area.width).toBeLessThanOrEqual(width);
+      expect(layout.area.y + layout.area.height + (layout.caption?.height ?? 0)).toBeLessThanOrEqual(height);
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { ResizeSettings, ResizeFit, FrameSettings } from '../types';
+import { Rect } from './placement';
+
+export interface SizePreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  fit: ResizeFit; // Suggested fit mode, applied when the preset is picked
+}
+
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: 'instagram-square', label: 'Instagram Square', width: 1080, height: 1080, fit: 'crop' },
+  { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350, fit: 'crop' },
+  { id: 'story', label: 'Story / Reel', width: 1080, height: 1920, fit: 'crop' },
+  { id: 'web-2048', label: 'Web 2048px', width: 2048, height: 2048, fit: 'fit' },
+];
+
+// Source rectangle to sample and where it lands on the output canvas
+export interface OutputLayout {
+  width: number;
+  height: number;
+  source: { x: number; y: number; width: number; height: number };
+  target: { x: number; y: number; width: number; height: number };
+  padded: boolean; // Output has bars around the image that need a background fill
+  area: Rect; // Part of the canvas for the photo and its bars; all of it unless framed
+  caption: Rect | null; // Caption strip of a frame
+}
+
+const getTargetBox = (resize: ResizeSettings) => {
+  if (resize.mode === 'preset') {
+    const preset = SIZE_PRESETS.find(p => p.id === resize.preset) ?? SIZE_PRESETS[0];
+    return { width: preset.width, height: preset.height };
+  }
+  return { width: resize.width, height: resize.height };
+};
+
+// Border and caption sizes as fractions of the output's long edge (zero when unframed)
+const getFrameFractions = (frame?: FrameSettings) => ({
+  border: frame?.enabled ? frame.border / 100 : 0,
+  caption: frame?.enabled && frame.caption.position !== 'none' ? frame.caption.height / 100 : 0,
+});
+
+// Places the photo area and caption strip inside the border of a width x height canvas
+const frameAreas = (width: number, height: number, border: number, caption: number, frame?: FrameSettings) => {
+  const top = frame?.caption.position === 'top';
+  const area = { x: border, y: border + (top ? caption : 0), width: width - border * 2, height: height - border * 2 - caption };
+  const strip = caption > 0
+    ? { x: border, y: top ? border : area.y + area.height, width: area.width, height: caption }
+    : null;
+  return { area, caption: strip };
+};
+
+// Works out the output size for an image. 'fit' and max long edge only ever
+// shrink; 'fill' (letterbox) and 'crop' always produce the exact box size.
+// A frame is part of the output size: it grows the canvas in the shrinking
+// modes and takes room from the photo in the exact-size ones.
+export const computeOutputLayout = (srcWidth: number, srcHeight: number, resize: ResizeSettings, frame?: FrameSettings): OutputLayout => {
+  const full = { x: 0, y: 0, width: srcWidth, height: srcHeight };
+  const fractions = getFrameFractions(frame);
+
+  // Frame sizes depend on the framed long edge, so solve for it: either the
+  // width or the height is the long edge, whichever stays consistent
+  const framedWidth = srcWidth / (1 - 2 * fractions.border);
+  const framedLongEdge = framedWidth >= srcHeight + (2 * fractions.border + fractions.caption) * framedWidth
+    ? framedWidth
+    : srcHeight / (1 - 2 * fractions.border - fractions.caption);
+  const framedSize = {
+    width: srcWidth + 2 * fractions.border * framedLongEdge,
+    height: srcHeight + (2 * fractions.border + fractions.caption) * framedLongEdge,
+  };
+
+  const scaled = (scale: number): OutputLayout => {
+    const photoWidth = Math.max(1, Math.round(srcWidth * scale));
+    const photoHeight = Math.max(1, Math.round(srcHeight * scale));
+    const border = Math.round(fractions.border * framedLongEdge * scale);
+    const caption = Math.round(fractions.caption * framedLongEdge * scale);
+    const width = photoWidth + border * 2;
+    const height = photoHeight + border * 2 + caption;
+    const areas = frameAreas(width, height, border, caption, frame);
+    return { width, height, source: full, target: areas.area, padded: false, ...areas };
+  };
+
+  if (resize.mode === 'original') return scaled(1);
+
+  if (resize.mode === 'long-edge') {
+    return scaled(Math.min(1, resize.longEdge / Math.max(framedSize.width, framedSize.height)));
+  }
+
+  const box = getTargetBox(resize);
+
+  if (resize.fit === 'fit') return scaled(Math.min(1, box.width / framedSize.width, box.height / framedSize.height));
+
+  // On a narrow box the frame (sized from the long edge) could eat the whole
+  // short side, so it shrinks to leave at least one pixel of photo
+  const longEdge = Math.max(box.width, box.height);
+  const border = Math.min(Math.round(fractions.border * longEdge), Math.floor((Math.min(box.width, box.height) - 1) / 2));
+  const { area, caption } = frameAreas(
+    box.width,
+    box.height,
+    border,
+    Math.min(Math.round(fractions.caption * longEdge), box.height - border * 2 - 1),
+    frame
+  );
+
+  if (resize.fit === 'fill') {
+    const containScale = Math.min(area.width / srcWidth, area.height / srcHeight);
+    const width = Math.max(1, Math.round(srcWidth * containScale));
+    const height = Math.max(1, Math.round(srcHeight * containScale));
+    return {
+      width: box.width,
+      height: box.height,
+      source: full,
+      target: { x: area.x + Math.round((area.width - width) / 2), y: area.y + Math.round((area.height - height) / 2), width, height },
+      padded: width !== area.width || height !== area.height,
+      area,
+      caption,
+    };
+  }
+
+  // Crop: cover the area and trim the overflow evenly from both sides
+  const coverScale = Math.max(area.width / srcWidth, area.height / srcHeight);
+  const cropWidth = area.width / coverScale;
+  const cropHeight = area.height / coverScale;
+  return {
+    width: box.width,
+    height: box.height,
+    source: { x: (srcWidth - cropWidth) / 2, y: (srcHeight - cropHeight) / 2, width: cropWidth, height: cropHeight },
+    target: area,
+    padded: false,
+    area,
+    caption,
+  };
+};
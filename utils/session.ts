@@ -0,0 +1,180 @@
+import { WatermarkSettings, ProcessedImage, LogoAsset, LogoProcessing } from '../types';
+import { migrateSettings, serializeSettings } from './settings';
+import { DEFAULT_LOGO_PROCESSING, processLogo, createLogoPreviewUrl } from './logoProcessing';
+
+// The working session (photos, logos, per-image status and choices, current
+// settings) mirrored into IndexedDB so a reload or closed tab can pick up where
+// it left off. Source files are written once and only deleted when they leave
+// the session; the small state record is rewritten on every save.
+
+const DB_NAME = 'maasai-watermark-session';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const STATE_STORE = 'state';
+const STATE_KEY = 'session';
+
+export interface SessionSnapshot {
+  settings: WatermarkSettings;
+  images: ProcessedImage[];
+  logos: LogoAsset[];
+  activePreviewId: string | null;
+}
+
+export interface RestoredSession extends SessionSnapshot {
+  savedAt: number;
+}
+
+interface StoredImage {
+  id: string;
+  status: ProcessedImage['status'];
+  errorMessage?: string;
+  overrides: ProcessedImage['overrides'];
+  output?: ProcessedImage['output'];
+}
+
+interface StoredState {
+  savedAt: number;
+  settings: unknown;
+  images: StoredImage[];
+  logos: { id: string; processing: LogoProcessing }[];
+  activePreviewId: string | null;
+}
+
+const imageKey = (id: string) => `image:${id}`;
+const logoKey = (id: string) => `logo:${id}`;
+
+// Files known to be in the database already, so saves skip rewriting them
+const persistedFiles = new Map<string, Blob>();
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('Saving the session was aborted.'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Writes run one after another so a slow save can't land after a newer one or a clear
+let writeQueue: Promise<void> = Promise.resolve();
+const enqueue = (write: () => Promise<void>): Promise<void> => {
+  const next = writeQueue.then(write);
+  writeQueue = next.catch(() => undefined);
+  return next;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(FILES_STORE);
+      open.result.createObjectStore(STATE_STORE);
+    };
+    dbPromise = request(open);
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const saveSession = (session: SessionSnapshot) => enqueue(async () => {
+  const db = await openDb();
+  const files = new Map<string, Blob>([
+    ...session.images.map(img => [imageKey(img.id), img.originalFile] as const),
+    ...session.logos.map(logo => [logoKey(logo.id), logo.original] as const),
+  ]);
+
+  const state: StoredState = {
+    savedAt: Date.now(),
+    settings: serializeSettings(session.settings),
+    // Interrupted work restarts as pending; result blobs are not kept, they are re-rendered on download
+    images: session.images.map(img => ({
+      id: img.id,
+      status: img.status === 'processing' ? 'pending' : img.status,
+      errorMessage: img.errorMessage,
+      overrides: img.overrides,
+      output: img.output,
+    })),
+    logos: session.logos.map(logo => ({ id: logo.id, processing: logo.processing })),
+    activePreviewId: session.activePreviewId,
+  };
+
+  const tx = db.transaction([FILES_STORE, STATE_STORE], 'readwrite');
+  const fileStore = tx.objectStore(FILES_STORE);
+  for (const [key, blob] of files) {
+    if (persistedFiles.get(key) !== blob) fileStore.put(blob, key);
+  }
+  for (const key of persistedFiles.keys()) {
+    if (!files.has(key)) fileStore.delete(key);
+  }
+  tx.objectStore(STATE_STORE).put(state, STATE_KEY);
+  await transactionDone(tx);
+
+  persistedFiles.clear();
+  files.forEach((blob, key) => persistedFiles.set(key, blob));
+});
+
+// Returns null when there is no saved session or it holds no photos or logos
+export const loadSession = async (): Promise<RestoredSession | null> => {
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, STATE_STORE], 'readonly');
+  const [state, keys, blobs] = await Promise.all([
+    request(tx.objectStore(STATE_STORE).get(STATE_KEY)) as Promise<StoredState | undefined>,
+    request(tx.objectStore(FILES_STORE).getAllKeys()) as Promise<string[]>,
+    request(tx.objectStore(FILES_STORE).getAll()) as Promise<File[]>,
+  ]);
+  if (!state) return null;
+
+  const files = new Map(keys.map((key, i) => [key, blobs[i]]));
+  persistedFiles.clear();
+  files.forEach((blob, key) => persistedFiles.set(key, blob));
+
+  // Entries whose file went missing are dropped rather than failing the restore
+  const images: ProcessedImage[] = state.images
+    .filter(img => files.has(imageKey(img.id)))
+    .map(img => ({ ...img, originalFile: files.get(imageKey(img.id))! }));
+  // Uploads are stored as they came in; the clean-up is re-applied from its options
+  const logos: LogoAsset[] = await Promise.all(state.logos
+    .filter(logo => files.has(logoKey(logo.id)))
+    .map(async ({ id, processing: saved }) => {
+      const original = files.get(logoKey(id))!;
+      const processing = { ...DEFAULT_LOGO_PROCESSING, ...saved };
+      const file = await processLogo(original, processing).catch(() => original);
+      return { id, file, original, processing, previewUrl: await createLogoPreviewUrl(file, processing) };
+    }));
+
+  if (images.length === 0 && logos.length === 0) return null;
+  return {
+    savedAt: state.savedAt,
+    settings: migrateSettings(state.settings),
+    images,
+    logos,
+    activePreviewId: images.some(img => img.id === state.activePreviewId) ? state.activePreviewId : images[0]?.id ?? null,
+  };
+};
+
+export const clearSession = () => enqueue(async () => {
+  const db = await openDb();
+  const tx = db.transaction([FILES_STORE, STATE_STORE], 'readwrite');
+  tx.objectStore(FILES_STORE).clear();
+  tx.objectStore(STATE_STORE).clear();
+  await transactionDone(tx);
+  persistedFiles.clear();
+});
+
+// Bytes held by the session's files, and the space the browser still offers
+export const getSessionUsage = async (session: Pick<SessionSnapshot, 'images' | 'logos'>): Promise<{ used: number; available: number | null }> => {
+  const used = session.images.reduce((sum, img) => sum + img.originalFile.size, 0)
+    + session.logos.reduce((sum, logo) => sum + logo.original.size, 0);
+  let estimate: StorageEstimate | null = null;
+  try {
+    estimate = await navigator.storage.estimate();
+  } catch {
+    // Storage estimates are unavailable in some private modes
+  }
+  const available = estimate?.quota !== undefined ? Math.max(0, estimate.quota - (estimate.usage ?? 0)) : null;
+  return { used, available };
+};
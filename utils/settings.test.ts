@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultSettings, createLayer, migrateSettings, serializeSettings, DEFAULT_SHADOW, DEFAULT_TEXT, SETTINGS_VERSION } from './settings';
+
+// Compares settings while ignoring the random IDs of new layers
+const withoutIds = <T extends { layers: { id: string }[] }>(settings: T) => ({
+  ...settings,
+  layers: settings.layers.map(({ id, ...layer }) => layer),
+});
+
+describe('migrateSettings', () => {
+  it('turns a save from before layers into a logo and a text layer', () => {
+    const migrated = migrateSettings({
+      position: 'top-left',
+      scale: 30,
+      opacity: 50,
+      margin: 5,
+      shadow: true,
+      text: { enabled: true, content: '© Jane', color: '#ff0000' },
+      outputFormat: 'image/png',
+      brightness: 120,
+    });
+
+    expect(migrated.layers.map(layer => layer.type)).toEqual(['logo', 'text']);
+    for (const layer of migrated.layers) {
+      expect(layer).toMatchObject({ position: 'top-left', scale: 30, opacity: 50, margin: 5 });
+      expect(layer.shadow).toEqual({ ...DEFAULT_SHADOW, enabled: true });
+    }
+    expect(migrated.layers[1].text).toEqual({ ...DEFAULT_TEXT, content: '© Jane', color: '#ff0000' });
+    expect(migrated.outputFormat).toBe('image/png');
+    expect(migrated.brightness).toBe(120);
+  });
+
+  it.each([
+    { label: 'version 1 (no version field)', version: undefined },
+    { label: 'version 2', version: 2 },
+  ])('brings $label up to the current shape', ({ version }) => {
+    const layer = { ...createLayer('text'), shadow: true } as Record<string, unknown>;
+    delete layer.outline;
+    delete layer.glow;
+    delete layer.emboss;
+    delete layer.blendMode;
+    const migrated = migrateSettings({ version, layers: [layer], outputFormat: 'image/webp', quality: 75 });
+
+    const defaults = createDefaultSettings();
+    expect(migrated.layers).toHaveLength(1);
+    expect(migrated.layers[0]).toEqual({
+      ...createLayer('text'),
+      id: layer.id,
+      shadow: { ...DEFAULT_SHADOW, enabled: true },
+    });
+    expect(migrated.outputFormat).toBe('image/webp');
+    expect(migrated.quality).toBe(75);
+    expect(migrated.frame).toEqual(defaults.frame);
+    expect(migrated.invisibleMark).toEqual(defaults.invisibleMark);
+  });
+
+  it('reads back a current save unchanged', () => {
+    const settings = { ...createDefaultSettings(), layers: [createLayer('logo', 'logo-1'), createLayer('text')] };
+    const saved = JSON.parse(JSON.stringify(serializeSettings(settings)));
+    expect(saved.version).toBe(SETTINGS_VERSION);
+    expect(migrateSettings(saved)).toEqual(settings);
+  });
+
+  it('falls back to the default for each invalid field', () => {
+    const defaults = createDefaultSettings();
+    const migrated = migrateSettings({
+      version: SETTINGS_VERSION,
+      layers: [null, 'logo', { type: 'video', scale: 500, opacity: -20, position: 'middle', shadow: { blur: 'soft' } }],
+      outputFormat: 'image/gif',
+      quality: 'high',
+      maxFileSizeKb: 1,
+      resize: { mode: 'stretch', longEdge: 100000 },
+      invisibleMark: { enabled: 'yes', strength: 50 },
+      brightness: Number.NaN,
+      frame: 'none',
+    });
+
+    expect(migrated.layers).toHaveLength(1);
+    expect(migrated.layers[0]).toMatchObject({ type: 'logo', scale: 100, opacity: 0, position: 'bottom-right' });
+    expect(migrated.layers[0].shadow).toEqual(DEFAULT_SHADOW);
+    expect(migrated.outputFormat).toBe(defaults.outputFormat);
+    expect(migrated.quality).toBe(defaults.quality);
+    expect(migrated.maxFileSizeKb).toBe(10);
+    expect(migrated.resize).toMatchObject({ mode: defaults.resize.mode, longEdge: 16384 });
+    expect(migrated.invisibleMark).toEqual({ ...defaults.invisibleMark, strength: 10 });
+    expect(migrated.brightness).toBe(defaults.brightness);
+    expect(migrated.frame).toEqual(defaults.frame);
+  });
+
+  it('returns the defaults for anything that is not a settings object', () => {
+    expect(withoutIds(migrateSettings(null))).toEqual(withoutIds(createDefaultSettings()));
+    expect(withoutIds(migrateSettings([1, 2]))).toEqual(withoutIds(createDefaultSettings()));
+  });
+});
@@ -0,0 +1,485 @@
+import { WatermarkSettings, WatermarkLayer, WatermarkPosition, AnchorPosition, TextWatermarkSettings, TileSettings, ResizeSettings, RightsMetadata, InvisibleMarkSettings, LogoAsset, ImageOverrides, BlendMode, ShadowSettings, OutlineSettings, GlowSettings, EmbossSettings, FrameSettings, EnhancementSettings } from '../types';
+
+export const SETTINGS_STORAGE_KEY = 'maasai-watermark-settings';
+
+export const DEFAULT_TEXT: TextWatermarkSettings = {
+  content: '',
+  fontFamily: 'Space Grotesk',
+  fontWeight: 700,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  letterSpacing: 0,
+};
+
+export const DEFAULT_TILE: TileSettings = {
+  angle: -30,
+  spacingX: 50,
+  spacingY: 100,
+  stagger: 50,
+};
+
+export const DEFAULT_RESIZE: ResizeSettings = {
+  mode: 'original',
+  longEdge: 2048,
+  width: 1920,
+  height: 1080,
+  preset: 'instagram-square',
+  fit: 'crop',
+  background: '#ffffff',
+};
+
+export const DEFAULT_METADATA: RightsMetadata = {
+  creator: '',
+  copyright: '',
+  contactUrl: '',
+  usageTerms: '',
+};
+
+export const DEFAULT_INVISIBLE_MARK: InvisibleMarkSettings = {
+  enabled: false,
+  ownerId: '',
+  strength: 4,
+};
+
+export const DEFAULT_SHADOW: ShadowSettings = {
+  enabled: false,
+  color: '#000000',
+  opacity: 60,
+  blur: 1,
+  distance: 0.4,
+  angle: 45,
+};
+
+export const DEFAULT_OUTLINE: OutlineSettings = {
+  enabled: false,
+  color: '#ffffff',
+  width: 0.3,
+};
+
+export const DEFAULT_GLOW: GlowSettings = {
+  enabled: false,
+  color: '#ffffff',
+  opacity: 80,
+  size: 1,
+};
+
+export const DEFAULT_EMBOSS: EmbossSettings = {
+  enabled: false,
+  depth: 0.2,
+};
+
+// Layer size as a percentage of the photo width; shared by the sliders and the migration
+export const LAYER_SCALE_RANGE = { min: 1, max: 100 };
+
+export const BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'overlay', 'soft-light', 'difference'];
+
+export const DEFAULT_FRAME: FrameSettings = {
+  enabled: false,
+  border: 2,
+  borderColor: '#ffffff',
+  caption: {
+    position: 'bottom',
+    height: 6,
+    background: '#ffffff',
+    textColor: '#222222',
+    fontFamily: 'Space Grotesk',
+    align: 'left',
+    showLogo: true,
+    logoId: null,
+    photographer: '',
+    event: '',
+    showDate: true,
+    showNumber: true,
+  },
+};
+
+export const createLayer = (type: WatermarkLayer['type'], logoId: string | null = null): WatermarkLayer => ({
+  id: crypto.randomUUID(),
+  name: type === 'logo' ? 'Logo' : 'Text',
+  type,
+  visible: true,
+  logoId,
+  adaptive: false,
+  lightLogoId: null,
+  darkLogoId: null,
+  text: { ...DEFAULT_TEXT, content: type === 'text' ? `© ${new Date().getFullYear()}` : '' },
+  tile: { ...DEFAULT_TILE },
+  position: 'bottom-right',
+  autoAnchors: ['top-left', 'top-right', 'bottom-left', 'bottom-right'],
+  x: 0.5,
+  y: 0.5,
+  scale: 20,
+  opacity: 80,
+  margin: 3,
+  blendMode: 'normal',
+  shadow: { ...DEFAULT_SHADOW },
+  outline: { ...DEFAULT_OUTLINE },
+  glow: { ...DEFAULT_GLOW },
+  emboss: { ...DEFAULT_EMBOSS },
+});
+
+// Leaves the photo as it is; also the defaults
+export const NEUTRAL_ENHANCEMENTS: EnhancementSettings = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  autoLevels: false,
+  levelsBlack: 0,
+  levelsWhite: 255,
+  temperature: 0,
+  tint: 0,
+  shadows: 0,
+  highlights: 0,
+  sharpen: 0,
+  sharpenRadius: 1,
+  vignette: 0,
+};
+
+export const createDefaultSettings = (): WatermarkSettings => ({
+  layers: [createLayer('logo')],
+  outputFormat: 'image/jpeg',
+  downloadAs: 'zip',
+  fileNameTemplate: 'watermarked-{name}.{ext}',
+  resize: { ...DEFAULT_RESIZE },
+  frame: { ...DEFAULT_FRAME, caption: { ...DEFAULT_FRAME.caption } },
+  quality: 95,
+  qualityMode: 'fixed',
+  maxFileSizeKb: 1000,
+  preserveMetadata: false,
+  stripGps: true,
+  metadata: { ...DEFAULT_METADATA },
+  invisibleMark: { ...DEFAULT_INVISIBLE_MARK },
+  ...NEUTRAL_ENHANCEMENTS,
+});
+
+// Bumped whenever the shape of WatermarkSettings changes. Saves without a
+// version are 1 (layers) or 0 (single watermark, detected by the missing layers).
+// Version 3 turned the layer's shadow flag into configurable shadow settings.
+export const SETTINGS_VERSION = 3;
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, fallback: number, min = -Infinity, max = Infinity) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readString = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+const readOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const ANCHORS: AnchorPosition[] = ['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const POSITIONS: WatermarkPosition[] = [...ANCHORS, 'tiled', 'custom', 'auto'];
+const OUTPUT_FORMATS: WatermarkSettings['outputFormat'][] = ['image/jpeg', 'image/png', 'image/webp'];
+
+const readText = (raw: unknown, fallback: TextWatermarkSettings): TextWatermarkSettings => {
+  const text = isObject(raw) ? raw : {};
+  return {
+    content: readString(text.content, fallback.content),
+    fontFamily: readString(text.fontFamily, fallback.fontFamily),
+    fontWeight: readNumber(text.fontWeight, fallback.fontWeight, 100, 900),
+    color: readString(text.color, fallback.color),
+    strokeColor: readString(text.strokeColor, fallback.strokeColor),
+    strokeWidth: readNumber(text.strokeWidth, fallback.strokeWidth, 0, 100),
+    letterSpacing: readNumber(text.letterSpacing, fallback.letterSpacing, -100, 500),
+  };
+};
+
+const readTile = (raw: unknown): TileSettings => {
+  const tile = isObject(raw) ? raw : {};
+  return {
+    angle: readNumber(tile.angle, DEFAULT_TILE.angle, -180, 180),
+    spacingX: readNumber(tile.spacingX, DEFAULT_TILE.spacingX, 0, 1000),
+    spacingY: readNumber(tile.spacingY, DEFAULT_TILE.spacingY, 0, 1000),
+    stagger: readNumber(tile.stagger, DEFAULT_TILE.stagger, 0, 100),
+  };
+};
+
+// Before version 3 the shadow was a flag for a fixed black shadow (the defaults)
+const readShadow = (raw: unknown): ShadowSettings => {
+  if (typeof raw === 'boolean') return { ...DEFAULT_SHADOW, enabled: raw };
+  const shadow = isObject(raw) ? raw : {};
+  return {
+    enabled: readBoolean(shadow.enabled, DEFAULT_SHADOW.enabled),
+    color: readString(shadow.color, DEFAULT_SHADOW.color),
+    opacity: readNumber(shadow.opacity, DEFAULT_SHADOW.opacity, 0, 100),
+    blur: readNumber(shadow.blur, DEFAULT_SHADOW.blur, 0, 10),
+    distance: readNumber(shadow.distance, DEFAULT_SHADOW.distance, 0, 10),
+    angle: readNumber(shadow.angle, DEFAULT_SHADOW.angle, -180, 360),
+  };
+};
+
+const readOutline = (raw: unknown): OutlineSettings => {
+  const outline = isObject(raw) ? raw : {};
+  return {
+    enabled: readBoolean(outline.enabled, DEFAULT_OUTLINE.enabled),
+    color: readString(outline.color, DEFAULT_OUTLINE.color),
+    width: readNumber(outline.width, DEFAULT_OUTLINE.width, 0, 5),
+  };
+};
+
+const readGlow = (raw: unknown): GlowSettings => {
+  const glow = isObject(raw) ? raw : {};
+  return {
+    enabled: readBoolean(glow.enabled, DEFAULT_GLOW.enabled),
+    color: readString(glow.color, DEFAULT_GLOW.color),
+    opacity: readNumber(glow.opacity, DEFAULT_GLOW.opacity, 0, 100),
+    size: readNumber(glow.size, DEFAULT_GLOW.size, 0, 10),
+  };
+};
+
+const readEmboss = (raw: unknown): EmbossSettings => {
+  const emboss = isObject(raw) ? raw : {};
+  return {
+    enabled: readBoolean(emboss.enabled, DEFAULT_EMBOSS.enabled),
+    depth: readNumber(emboss.depth, DEFAULT_EMBOSS.depth, 0, 5),
+  };
+};
+
+const readLayer = (raw: unknown): WatermarkLayer | null => {
+  if (!isObject(raw)) return null;
+  const defaults = createLayer(readOption(raw.type, ['logo', 'text'] as const, 'logo'));
+  return {
+    id: readString(raw.id, defaults.id),
+    name: readString(raw.name, defaults.name),
+    type: defaults.type,
+    visible: readBoolean(raw.visible, defaults.visible),
+    logoId: typeof raw.logoId === 'string' ? raw.logoId : null,
+    adaptive: readBoolean(raw.adaptive, defaults.adaptive),
+    lightLogoId: typeof raw.lightLogoId === 'string' ? raw.lightLogoId : null,
+    darkLogoId: typeof raw.darkLogoId === 'string' ? raw.darkLogoId : null,
+    text: readText(raw.text, defaults.text),
+    tile: readTile(raw.tile),
+    position: readOption(raw.position, POSITIONS, defaults.position),
+    autoAnchors: Array.isArray(raw.autoAnchors)
+      ? ANCHORS.filter(anchor => (raw.autoAnchors as unknown[]).includes(anchor))
+      : defaults.autoAnchors,
+    x: readNumber(raw.x, defaults.x, 0, 1),
+    y: readNumber(raw.y, defaults.y, 0, 1),
+    scale: readNumber(raw.scale, defaults.scale, LAYER_SCALE_RANGE.min, LAYER_SCALE_RANGE.max),
+    opacity: readNumber(raw.opacity, defaults.opacity, 0, 100),
+    margin: readNumber(raw.margin, defaults.margin, 0, 50),
+    blendMode: readOption(raw.blendMode, BLEND_MODES, defaults.blendMode),
+    shadow: readShadow(raw.shadow),
+    outline: readOutline(raw.outline),
+    glow: readGlow(raw.glow),
+    emboss: readEmboss(raw.emboss),
+  };
+};
+
+const readResize = (raw: unknown): ResizeSettings => {
+  const resize = isObject(raw) ? raw : {};
+  return {
+    mode: readOption(resize.mode, ['original', 'long-edge', 'exact', 'preset'] as const, DEFAULT_RESIZE.mode),
+    longEdge: readNumber(resize.longEdge, DEFAULT_RESIZE.longEdge, 16, 16384),
+    width: readNumber(resize.width, DEFAULT_RESIZE.width, 16, 16384),
+    height: readNumber(resize.height, DEFAULT_RESIZE.height, 16, 16384),
+    preset: readString(resize.preset, DEFAULT_RESIZE.preset),
+    fit: readOption(resize.fit, ['fit', 'fill', 'crop'] as const, DEFAULT_RESIZE.fit),
+    background: readString(resize.background, DEFAULT_RESIZE.background),
+  };
+};
+
+const readFrame = (raw: unknown): FrameSettings => {
+  const frame = isObject(raw) ? raw : {};
+  const caption = isObject(frame.caption) ? frame.caption : {};
+  const defaults = DEFAULT_FRAME.caption;
+  return {
+    enabled: readBoolean(frame.enabled, DEFAULT_FRAME.enabled),
+    border: readNumber(frame.border, DEFAULT_FRAME.border, 0, 20),
+    borderColor: readString(frame.borderColor, DEFAULT_FRAME.borderColor),
+    caption: {
+      position: readOption(caption.position, ['none', 'top', 'bottom'] as const, defaults.position),
+      height: readNumber(caption.height, defaults.height, 2, 30),
+      background: readString(caption.background, defaults.background),
+      textColor: readString(caption.textColor, defaults.textColor),
+      fontFamily: readString(caption.fontFamily, defaults.fontFamily),
+      align: readOption(caption.align, ['left', 'center', 'right'] as const, defaults.align),
+      showLogo: readBoolean(caption.showLogo, defaults.showLogo),
+      logoId: typeof caption.logoId === 'string' ? caption.logoId : null,
+      photographer: readString(caption.photographer, defaults.photographer),
+      event: readString(caption.event, defaults.event),
+      showDate: readBoolean(caption.showDate, defaults.showDate),
+      showNumber: readBoolean(caption.showNumber, defaults.showNumber),
+    },
+  };
+};
+
+const readMetadata = (raw: unknown): RightsMetadata => {
+  const metadata = isObject(raw) ? raw : {};
+  return {
+    creator: readString(metadata.creator, DEFAULT_METADATA.creator),
+    copyright: readString(metadata.copyright, DEFAULT_METADATA.copyright),
+    contactUrl: readString(metadata.contactUrl, DEFAULT_METADATA.contactUrl),
+    usageTerms: readString(metadata.usageTerms, DEFAULT_METADATA.usageTerms),
+  };
+};
+
+const readInvisibleMark = (raw: unknown): InvisibleMarkSettings => {
+  const mark = isObject(raw) ? raw : {};
+  return {
+    enabled: readBoolean(mark.enabled, DEFAULT_INVISIBLE_MARK.enabled),
+    ownerId: readString(mark.ownerId, DEFAULT_INVISIBLE_MARK.ownerId),
+    strength: readNumber(mark.strength, DEFAULT_INVISIBLE_MARK.strength, 1, 10),
+  };
+};
+
+// Saves from before layers existed described a single watermark at the top level.
+// Convert them into an equivalent logo layer (plus a text layer if one was enabled).
+const migrateSingleWatermark = (saved: RawObject): WatermarkSettings => {
+  const defaults = createDefaultSettings();
+  const placement = {
+    position: readOption(saved.position, POSITIONS, 'bottom-right'),
+    scale: readNumber(saved.scale, 20, LAYER_SCALE_RANGE.min, LAYER_SCALE_RANGE.max),
+    opacity: readNumber(saved.opacity, 80, 0, 100),
+    margin: readNumber(saved.margin, 3, 0, 50),
+    shadow: readShadow(readBoolean(saved.shadow, false)),
+  };
+
+  const text = isObject(saved.text) ? saved.text : {};
+  const layers: WatermarkLayer[] = [{ ...createLayer('logo'), ...placement }];
+  if (readBoolean(text.enabled, false) && readString(text.content, '')) {
+    layers.push({ ...createLayer('text'), ...placement, text: readText(text, DEFAULT_TEXT) });
+  }
+
+  return {
+    ...defaults,
+    outputFormat: readOption(saved.outputFormat, OUTPUT_FORMATS, defaults.outputFormat),
+    brightness: readNumber(saved.brightness, defaults.brightness, 0, 200),
+    contrast: readNumber(saved.contrast, defaults.contrast, 0, 200),
+    saturation: readNumber(saved.saturation, defaults.saturation, 0, 200),
+    layers,
+  };
+};
+
+// Brings settings saved by any version of the app up to the current shape.
+// Every field is checked on its own, so one bad or missing value falls back
+// to its default instead of discarding the whole save.
+export const migrateSettings = (raw: unknown): WatermarkSettings => {
+  const defaults = createDefaultSettings();
+  if (!isObject(raw)) return defaults;
+
+  const version = typeof raw.version === 'number' ? raw.version : Array.isArray(raw.layers) ? 1 : 0;
+  const saved: RawObject = version === 0 ? { ...migrateSingleWatermark(raw) } : raw;
+
+  return {
+    layers: Array.isArray(saved.layers)
+      ? saved.layers.map(readLayer).filter((layer): layer is WatermarkLayer => layer !== null)
+      : defaults.layers,
+    outputFormat: readOption(saved.outputFormat, OUTPUT_FORMATS, defaults.outputFormat),
+    downloadAs: readOption(saved.downloadAs, ['zip', 'files'] as const, defaults.downloadAs),
+    fileNameTemplate: readString(saved.fileNameTemplate, defaults.fileNameTemplate),
+    resize: readResize(saved.resize),
+    frame: readFrame(saved.frame),
+    quality: readNumber(saved.quality, defaults.quality, 10, 100),
+    qualityMode: readOption(saved.qualityMode, ['fixed', 'target-size'] as const, defaults.qualityMode),
+    maxFileSizeKb: readNumber(saved.maxFileSizeKb, defaults.maxFileSizeKb, 10),
+    preserveMetadata: readBoolean(saved.preserveMetadata, defaults.preserveMetadata),
+    stripGps: readBoolean(saved.stripGps, defaults.stripGps),
+    metadata: readMetadata(saved.metadata),
+    invisibleMark: readInvisibleMark(saved.invisibleMark),
+    brightness: readNumber(saved.brightness, defaults.brightness, 0, 200),
+    contrast: readNumber(saved.contrast, defaults.contrast, 0, 200),
+    saturation: readNumber(saved.saturation, defaults.saturation, 0, 200),
+    autoLevels: readBoolean(saved.autoLevels, defaults.autoLevels),
+    levelsBlack: readNumber(saved.levelsBlack, defaults.levelsBlack, 0, 254),
+    levelsWhite: readNumber(saved.levelsWhite, defaults.levelsWhite, 1, 255),
+    temperature: readNumber(saved.temperature, defaults.temperature, -100, 100),
+    tint: readNumber(saved.tint, defaults.tint, -100, 100),
+    shadows: readNumber(saved.shadows, defaults.shadows, -100, 100),
+    highlights: readNumber(saved.highlights, defaults.highlights, -100, 100),
+    sharpen: readNumber(saved.sharpen, defaults.sharpen, 0, 200),
+    sharpenRadius: readNumber(saved.sharpenRadius, defaults.sharpenRadius, 0.5, 5),
+    vignette: readNumber(saved.vignette, defaults.vignette, -100, 100),
+  };
+};
+
+// Settings as stored or exported, tagged with the schema version
+export const serializeSettings = (settings: WatermarkSettings) => ({ version: SETTINGS_VERSION, ...settings });
+
+export const loadSavedSettings = (): WatermarkSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      return migrateSettings(JSON.parse(saved));
+    }
+  } catch (e) {
+    console.error("Failed to load settings", e);
+  }
+  return createDefaultSettings();
+};
+
+// Hands logos, in order, to logo layers whose logo is not loaded in this
+// session (e.g. layers restored from a save or a preset)
+export const linkWaitingLogos = (layers: WatermarkLayer[], logos: LogoAsset[], loadedIds: Set<string>): WatermarkLayer[] => {
+  let next = 0;
+  return layers.map(layer => {
+    if (layer.type !== 'logo' || (layer.logoId && loadedIds.has(layer.logoId)) || next >= logos.length) {
+      return layer;
+    }
+    return { ...layer, logoId: logos[next++].id };
+  });
+};
+
+export const saveSettings = (settings: WatermarkSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(serializeSettings(settings)));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+    // Fallback if local storage is full or disabled, though rare in modern context
+  }
+};
+
+// Paths of the values that differ, two levels into nested settings objects
+const collectChanges = (prev: unknown, next: unknown, path: string, depth: number, changes: string[]) => {
+  if (Object.is(prev, next)) return;
+  if (depth > 0 && isObject(prev) && isObject(next)) {
+    for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+      collectChanges(prev[key], next[key], `${path}.${key}`, depth - 1, changes);
+    }
+    return;
+  }
+  changes.push(path);
+};
+
+// Names the fields an edit changed (e.g. "quality" or "layers.<id>.text.content"),
+// so the undo history merges repeated edits of one control but not of different
+// ones. Adding, removing or reordering layers never merges.
+export const getSettingsChangeKey = (prev: WatermarkSettings, next: WatermarkSettings): string | null => {
+  const changes: string[] = [];
+  for (const key of Object.keys(next) as (keyof WatermarkSettings)[]) {
+    if (key !== 'layers') {
+      collectChanges(prev[key], next[key], key, 2, changes);
+      continue;
+    }
+    if (prev.layers.length !== next.layers.length || prev.layers.some((layer, i) => layer.id !== next.layers[i].id)) return null;
+    next.layers.forEach((layer, i) => collectChanges(prev.layers[i], layer, `layers.${layer.id}`, 2, changes));
+  }
+  return changes.join(',');
+};
+
+// True when an image renders differently from the batch settings (the logo
+// variant has its own control and does not count)
+export const hasSettingOverrides = (overrides: ImageOverrides): boolean =>
+  !!overrides.skipWatermark
+  || Object.keys(overrides.settings ?? {}).length > 0
+  || Object.values(overrides.layers ?? {}).some(layer => Object.keys(layer).length > 0);
+
+// The settings one image is actually rendered with
+export const getEffectiveSettings = (settings: WatermarkSettings, overrides: ImageOverrides): WatermarkSettings => {
+  if (!hasSettingOverrides(overrides)) return settings;
+  return {
+    ...settings,
+    ...overrides.settings,
+    layers: settings.layers.map(layer => ({
+      ...layer,
+      ...overrides.layers?.[layer.id],
+      visible: layer.visible && !overrides.skipWatermark,
+    })),
+  };
+};
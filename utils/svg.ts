@@ -0,0 +1,120 @@
+// SVG logos are kept as markup rather than decoded once, so each photo can
+// rasterize them at exactly the size the mark is drawn at. The parsing here is
+// string based on purpose: it has to run in the CLI as well, where there is no DOMParser.
+
+export interface SvgLogo {
+  name: string; // File name, for error messages
+  markup: string; // Root element without width/height; see sizeSvgMarkup
+  width: number; // Intrinsic size in CSS pixels
+  height: number;
+}
+
+// Browsers fall back to this size for SVGs that give neither a size nor a viewBox
+const DEFAULT_WIDTH = 300;
+const DEFAULT_HEIGHT = 150;
+
+const UNIT_TO_PX: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+};
+
+// First <svg> start tag; quoted attribute values may contain '>'
+const ROOT_TAG = /<svg\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/i;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+const HREF = /\b(?:xlink:)?href\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+const CSS_URL = /url\(\s*(['"]?)([^'")]*)\1\s*\)/gi;
+
+export const isSvgFile = (file: Blob, fileName?: string): boolean =>
+  file.type === 'image/svg+xml' || /\.svg$/i.test(fileName ?? (file instanceof File ? file.name : ''));
+
+const parseAttributes = (source: string): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes.set(match[1], match[3] ?? match[4]);
+  }
+  return attributes;
+};
+
+// Absolute lengths only; percentages and font-relative units depend on a context an image doesn't have
+const parseLength = (value: string | undefined): number | null => {
+  const match = value?.trim().match(/^([\d.]+(?:e[+-]?\d+)?)\s*([a-z]*)$/i);
+  if (!match || !(match[2].toLowerCase() in UNIT_TO_PX)) return null;
+  const length = parseFloat(match[1]) * UNIT_TO_PX[match[2].toLowerCase()];
+  return length > 0 ? length : null;
+};
+
+const parseViewBox = (value: string | undefined): { width: number; height: number } | null => {
+  const parts = value?.trim().split(/[\s,]+/).map(Number);
+  if (!parts || parts.length !== 4 || parts.some(isNaN) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return { width: parts[2], height: parts[3] };
+};
+
+const isLocalReference = (ref: string) => {
+  const value = ref.trim();
+  return value === '' || value.startsWith('#') || value.toLowerCase().startsWith('data:');
+};
+
+// Browsers never load files linked from an SVG used as an image, so such a
+// logo would silently render with pieces missing
+const findExternalReference = (markup: string): string | null => {
+  for (const match of markup.matchAll(HREF)) {
+    const ref = match[1] ?? match[2];
+    if (!isLocalReference(ref)) return ref;
+  }
+  for (const match of markup.matchAll(CSS_URL)) {
+    if (!isLocalReference(match[2])) return match[2];
+  }
+  const imported = markup.match(/@import\s+(?:url\()?\s*['"]?([^'");\s]+)/i);
+  return imported ? imported[1] : null;
+};
+
+// Works out the intrinsic size (width/height, falling back to the viewBox
+// ratio) and normalizes the root so the logo can be scaled to any size
+export const parseSvgLogo = (markup: string, fileName: string): SvgLogo => {
+  const root = markup.match(ROOT_TAG);
+  if (!root) throw new Error(`"${fileName}" is not a valid SVG file.`);
+
+  const external = findExternalReference(markup);
+  if (external) {
+    throw new Error(`"${fileName}" references an external resource (${external}). Embed linked images and fonts in the SVG (or convert text to outlines) and upload it again.`);
+  }
+
+  const attributes = parseAttributes(root[1]);
+  const viewBox = parseViewBox(attributes.get('viewBox'));
+  let width = parseLength(attributes.get('width'));
+  let height = parseLength(attributes.get('height'));
+
+  if (viewBox) {
+    width ??= height ? height * (viewBox.width / viewBox.height) : viewBox.width;
+    height ??= width * (viewBox.height / viewBox.width);
+  } else {
+    width ??= DEFAULT_WIDTH;
+    height ??= DEFAULT_HEIGHT;
+  }
+
+  // Without a viewBox the content is laid out in CSS pixels of the intrinsic size
+  attributes.delete('width');
+  attributes.delete('height');
+  if (!viewBox) attributes.set('viewBox', `0 0 ${width} ${height}`);
+  if (!attributes.has('xmlns')) attributes.set('xmlns', 'http://www.w3.org/2000/svg');
+
+  const rebuilt = Array.from(attributes, ([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`).join('');
+  return {
+    name: fileName,
+    markup: markup.replace(ROOT_TAG, () => `<svg${rebuilt}${root[2]}>`),
+    width,
+    height,
+  };
+};
+
+// The same logo with its root sized to exactly width x height pixels
+export const sizeSvgMarkup = (logo: SvgLogo, width: number, height: number): string =>
+  logo.markup.replace(/<svg\b/i, `<svg width="${width}" height="${height}"`);
+
+export const readSvgLogo = async (file: Blob, fileName: string): Promise<SvgLogo> =>
+  parseSvgLogo(await file.text(), fileName);
@@ -1,5 +1,48 @@
 
-import { WatermarkSettings } from '../types';
+import { WatermarkSettings, WatermarkLayer, AnchorPosition, ImageOverrides, LogoVariant, TextWatermarkSettings, LogoAsset, LayerPlacement, WatermarkResult, RenderOutput, TileSettings, CaptionContext, EnhancementSettings, LogoProcessing } from '../types';
+import { parseJpeg, JpegInfo } from './jpeg';
+import { embedMetadata } from './metadata';
+import { computeOutputLayout } from './resize';
+import { getRasterBackend, DrawingContext, RasterCanvas, RasterImage } from './raster';
+import { embedInvisibleMark, MIN_MARK_JPEG_QUALITY } from './invisibleMark';
+import { analyzeCanvas, pickCalmestAnchor, Rect } from './placement';
+import { isSvgFile, readSvgLogo, sizeSvgMarkup, SvgLogo } from './svg';
+import { hasMarkEffects, renderMarkEffects, BLEND_OPERATIONS, StyledMark } from './effects';
+import { drawCaption } from './caption';
+import { parseHex } from './color';
+import { applyPixelAdjustments, getAutoLevels, getAutoWhiteBalance, getEnhancementFilter, hasPixelAdjustments, measureHistogram } from './adjustments';
+
+// An SVG source for a mark, with the logo's processing (if any) and, for
+// generated monochrome variants, the color to apply after it
+export interface VectorMark {
+  svg: SvgLogo;
+  processing?: LogoProcessing;
+  color?: string;
+}
+
+type MarkVariant = 'image' | 'light' | 'dark';
+
+// What a layer draws. Adaptive logo layers also carry a light variant (for
+// dark photos) and a dark one (for bright photos). Variants that come from an
+// SVG also keep it, and text layers their text settings; both are re-rasterized
+// at the exact mark size of each photo.
+export interface LayerMark {
+  image: RasterImage;
+  light?: RasterImage;
+  dark?: RasterImage;
+  vectors?: Partial<Record<MarkVariant, VectorMark>>;
+  text?: TextWatermarkSettings;
+}
+
+// Marks keyed by layer id, prepared once per batch on the main thread. The
+// frame's caption logo is kept under its own key.
+export type LayerMarks = Map<string, LayerMark>;
+
+export const CAPTION_LOGO_MARK = 'caption-logo';
+
+// Text is rasterized once at this width for layout (its aspect ratio), then
+// again at the mark size of each photo
+const TEXT_LAYOUT_WIDTH = 1024;
 
 export const readFileAsDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -10,35 +53,438 @@ export const readFileAsDataURL = (file: File): Promise<string> => {
   });
 };
 
-export const loadImage = (src: string, fileName?: string): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.onload = () => resolve(img);
-    img.onerror = () => reject(new Error(fileName 
+// Rasterizes an SVG logo at the given width (height follows its aspect ratio)
+export const rasterizeSvgLogo = async (svg: SvgLogo, width: number, height = width * (svg.height / svg.width)): Promise<RasterImage> => {
+  const pixelWidth = Math.max(1, Math.round(width));
+  const pixelHeight = Math.max(1, Math.round(height));
+  try {
+    return await getRasterBackend().decodeSvg(sizeSvgMarkup(svg, pixelWidth, pixelHeight), pixelWidth, pixelHeight);
+  } catch {
+    throw new Error(`Failed to render "${svg.name}". The SVG might use features that can't be drawn as an image.`);
+  }
+};
+
+// Decodes an image file (SVGs at their intrinsic size). Works on the main
+// thread, in workers and in the CLI.
+export const decodeImage = async (file: Blob, fileName?: string): Promise<RasterImage> => {
+  if (isSvgFile(file, fileName)) {
+    const svg = await readSvgLogo(file, fileName ?? 'SVG image');
+    return rasterizeSvgLogo(svg, svg.width, svg.height);
+  }
+  try {
+    return await getRasterBackend().decodeImage(file);
+  } catch {
+    throw new Error(fileName 
       ? `Failed to load image data for "${fileName}". The file format might be unsupported or the file is corrupted.` 
-      : "Failed to load image data."));
-    img.src = src;
-  });
+      : "Failed to load image data.");
+  }
 };
 
-export const applyWatermarkToImage = async (
-  imageFile: File,
-  logoFile: File,
+// Transforms for the quarter-turn orientations 5-8 (source width w, height h).
+// Mirrors and half turns (2-4) keep the frame size, so a decoder that skipped
+// them can't be told apart from one that applied them; those are left to the decoder.
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => [number, number, number, number, number, number]> = {
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, h) => [0, 1, -1, 0, h, 0],
+  7: (w, h) => [0, -1, -1, 0, h, w],
+  8: (w) => [0, -1, 1, 0, 0, w],
+};
+
+// Current browsers (and the CLI's decoder) apply the EXIF orientation while
+// decoding, but some older engines ignore it. A quarter-turn orientation whose decoded size still
+// matches the stored (unrotated) frame size shows the decoder skipped it, so
+// the transform is applied here instead.
+const ensureUpright = async (image: RasterImage, jpeg: JpegInfo | null): Promise<RasterImage> => {
+  if (!jpeg || jpeg.orientation < 5 || jpeg.width === jpeg.height) return image;
+  if (image.width !== jpeg.width || image.height !== jpeg.height) return image;
+
+  const raster = getRasterBackend();
+  const canvas = raster.createCanvas(image.height, image.width);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  ctx.setTransform(...ORIENTATION_TRANSFORMS[jpeg.orientation](image.width, image.height));
+  ctx.drawImage(image, 0, 0);
+  raster.release(image);
+  return raster.toImage(canvas);
+};
+
+// Orientation and metadata segments live in the first few hundred KB of a JPEG
+const JPEG_HEADER_BYTES = 512 * 1024;
+
+// A layer only contributes to the output if it is visible and has a source to draw
+export const isLayerDrawable = (layer: WatermarkLayer, logos: LogoAsset[]): boolean => {
+  if (!layer.visible) return false;
+  if (layer.type === 'text') return layer.text.content.trim().length > 0;
+  return logos.some(logo => logo.id === layer.logoId);
+};
+
+// Renders text onto its own transparent canvas so it can be positioned, tiled
+// and shadowed exactly like a logo. The font size is chosen so the text spans
+// roughly `targetWidth` pixels.
+export const renderTextWatermark = async (
+  text: TextWatermarkSettings,
+  targetWidth: number
+): Promise<RasterCanvas> => {
+  const fontFor = (size: number) => `${text.fontWeight} ${size}px "${text.fontFamily}"`;
+  const raster = getRasterBackend();
+
+  // Web fonts are loaded lazily; make sure the glyphs exist before measuring
+  try {
+    await raster.loadFont(fontFor(100), text.content);
+  } catch {
+    // Fall back to whatever font the browser substitutes
+  }
+
+  const canvas = raster.createCanvas(1, 1);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+
+  const chars = Array.from(text.content);
+
+  // Measure at a reference size, then scale linearly to the requested width
+  const measureWidth = (size: number) => {
+    ctx.font = fontFor(size);
+    const spacing = (size * text.letterSpacing) / 100;
+    return chars.reduce((sum, ch) => sum + ctx.measureText(ch).width, 0) + spacing * Math.max(chars.length - 1, 0);
+  };
+  const referenceWidth = measureWidth(100);
+  const fontSize = referenceWidth > 0 ? Math.max(1, (100 * targetWidth) / referenceWidth) : 100;
+
+  const font = fontFor(fontSize);
+  const spacing = (fontSize * text.letterSpacing) / 100;
+  const stroke = (fontSize * text.strokeWidth) / 100;
+
+  ctx.font = font;
+  const charWidths = chars.map(ch => ctx.measureText(ch).width);
+  const textWidth = charWidths.reduce((sum, w) => sum + w, 0) + spacing * Math.max(chars.length - 1, 0);
+
+  const metrics = ctx.measureText(text.content);
+  const ascent = metrics.actualBoundingBoxAscent || fontSize * 0.8;
+  const descent = metrics.actualBoundingBoxDescent || fontSize * 0.2;
+
+  canvas.width = Math.max(1, Math.ceil(textWidth + stroke * 2));
+  canvas.height = Math.max(1, Math.ceil(ascent + descent + stroke * 2));
+
+  // Resizing the canvas resets the context state
+  ctx.font = font;
+  ctx.textBaseline = 'alphabetic';
+  ctx.lineJoin = 'round';
+
+  const drawChars = (draw: (ch: string, x: number, y: number) => void) => {
+    let x = stroke;
+    chars.forEach((ch, i) => {
+      draw(ch, x, stroke + ascent);
+      x += charWidths[i] + spacing;
+    });
+  };
+
+  // Outline first so the fill sits on top and the stroke only grows outwards
+  if (stroke > 0) {
+    ctx.strokeStyle = text.strokeColor;
+    ctx.lineWidth = stroke * 2;
+    drawChars((ch, x, y) => ctx.strokeText(ch, x, y));
+  }
+
+  ctx.fillStyle = text.color;
+  drawChars((ch, x, y) => ctx.fillText(ch, x, y));
+
+  return canvas;
+};
+
+// Top-left corner of a single (non-tiled) layer on a canvas of the given size
+export const getLayerOrigin = (
+  layer: WatermarkLayer,
+  canvasWidth: number,
+  canvasHeight: number,
+  markWidth: number,
+  markHeight: number
+): { x: number; y: number } => {
+  const marginX = (canvasWidth * layer.margin) / 100;
+  const marginY = (canvasHeight * layer.margin) / 100;
+
+  switch (layer.position) {
+    case 'top-left':
+      return { x: marginX, y: marginY };
+    case 'top-right':
+      return { x: canvasWidth - markWidth - marginX, y: marginY };
+    case 'bottom-left':
+      return { x: marginX, y: canvasHeight - markHeight - marginY };
+    case 'bottom-right':
+      return { x: canvasWidth - markWidth - marginX, y: canvasHeight - markHeight - marginY };
+    case 'custom':
+      // Normalized anchor keeps the same relative placement at any resolution
+      return { x: layer.x * canvasWidth - markWidth / 2, y: layer.y * canvasHeight - markHeight / 2 };
+    case 'center':
+    default:
+      return { x: (canvasWidth - markWidth) / 2, y: (canvasHeight - markHeight) / 2 };
+  }
+};
+
+// Fills the whole canvas with a rotated, optionally staggered grid of marks.
+// The grid is laid out around the canvas center and sized to the canvas
+// diagonal, so no edge is left bare whatever the rotation angle.
+export const drawTiledPattern = (
+  ctx: DrawingContext,
+  mark: CanvasImageSource,
+  markWidth: number,
+  markHeight: number,
+  tile: TileSettings,
+  canvasWidth: number,
+  canvasHeight: number,
+  pad = 0 // Room around the mark image taken by its effects
+) => {
+  const stepX = markWidth * (1 + tile.spacingX / 100);
+  const stepY = markHeight * (1 + tile.spacingY / 100);
+  const staggerOffset = (stepX * tile.stagger) / 100;
+
+  const reach = Math.hypot(canvasWidth, canvasHeight) / 2;
+  const cols = Math.ceil(reach / stepX) + 1;
+  const rows = Math.ceil(reach / stepY) + 1;
+
+  ctx.save();
+  ctx.translate(canvasWidth / 2, canvasHeight / 2);
+  ctx.rotate((tile.angle * Math.PI) / 180);
+
+  for (let row = -rows; row <= rows; row++) {
+    const offset = Math.abs(row) % 2 === 1 ? staggerOffset : 0;
+    for (let col = -cols - 1; col <= cols; col++) {
+      ctx.drawImage(mark, col * stepX + offset - markWidth / 2 - pad, row * stepY - markHeight / 2 - pad, markWidth + pad * 2, markHeight + pad * 2);
+    }
+  }
+
+  ctx.restore();
+};
+
+// Largest RGB distance (black to white)
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+// Pixels just outside the tolerance fade out over this share of it, so
+// anti-aliased edges don't keep a hard halo of the old background
+const EDGE_FEATHER = 0.5;
+
+export const hasLogoProcessing = (processing: LogoProcessing): boolean =>
+  processing.removeBackground || processing.colorMode !== 'original';
+
+// Applies background removal and recoloring to a logo drawn on a canvas, in place
+export const applyLogoProcessing = (canvas: RasterCanvas, processing: LogoProcessing) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = pixels;
+  const [bgR, bgG, bgB] = parseHex(processing.backgroundColor);
+  const [cR, cG, cB] = parseHex(processing.color);
+  const threshold = (processing.tolerance / 100) * MAX_DISTANCE;
+  const feather = Math.max(1, threshold * EDGE_FEATHER);
+  const tint = processing.tintStrength / 100;
+  const silhouette = processing.colorMode === 'white' ? [255, 255, 255]
+    : processing.colorMode === 'black' ? [0, 0, 0]
+    : processing.colorMode === 'custom' ? [cR, cG, cB]
+    : null;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (processing.removeBackground) {
+      const distance = Math.hypot(data[i] - bgR, data[i + 1] - bgG, data[i + 2] - bgB);
+      const keep = Math.min(1, Math.max(0, (distance - threshold) / feather));
+      data[i + 3] = Math.round(data[i + 3] * keep);
+    }
+    if (silhouette) {
+      data[i] = silhouette[0];
+      data[i + 1] = silhouette[1];
+      data[i + 2] = silhouette[2];
+    } else if (processing.colorMode === 'tint') {
+      // Multiply by the tint color: white becomes the tint, black stays black
+      data[i] += (data[i] * cR / 255 - data[i]) * tint;
+      data[i + 1] += (data[i + 1] * cG / 255 - data[i + 1]) * tint;
+      data[i + 2] += (data[i + 2] * cB / 255 - data[i + 2]) * tint;
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+};
+
+// Processed copy of a mark, for SVG logos rasterized at the size they are drawn
+const createProcessedMark = async (image: RasterImage, processing: LogoProcessing): Promise<RasterImage> => {
+  const raster = getRasterBackend();
+  const canvas = raster.createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  ctx.drawImage(image, 0, 0);
+  applyLogoProcessing(canvas, processing);
+  return raster.toImage(canvas);
+};
+
+// Recolors every visible pixel of a mark, keeping its alpha (e.g. an all-white logo)
+const createMonochromeMark = async (image: RasterImage, color: string): Promise<RasterImage> => {
+  const raster = getRasterBackend();
+  const canvas = raster.createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('System memory low. Could not create drawing context.');
+  ctx.drawImage(image, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return raster.toImage(canvas);
+};
+
+// Decodes logos and rasterizes text for every drawable layer. This needs the
+// document (for web fonts), so it runs on the main thread; the resulting
+// bitmaps can be shared with render workers.
+export const prepareLayerMarks = async (settings: WatermarkSettings, logos: LogoAsset[]): Promise<LayerMarks> => {
+  const layers = settings.layers.filter(layer => isLayerDrawable(layer, logos));
+  const loadedLogos = new Map<string, Promise<{ image: RasterImage; vector?: VectorMark }>>();
+
+  // Decode each logo once, even if several layers use it. SVGs keep their
+  // markup and processing, so each photo gets them rendered at its mark size.
+  const loadLogo = (logo: LogoAsset) => {
+    if (!loadedLogos.has(logo.id)) {
+      loadedLogos.set(logo.id, (async () => {
+        if (!isSvgFile(logo.file)) return { image: await decodeImage(logo.file, logo.file.name) };
+        const svg = await readSvgLogo(logo.file, logo.file.name);
+        const vector: VectorMark = { svg, processing: hasLogoProcessing(logo.processing) ? logo.processing : undefined };
+        const image = await rasterizeSvgLogo(svg, svg.width, svg.height);
+        return { image: vector.processing ? await createProcessedMark(image, vector.processing) : image, vector };
+      })());
+    }
+    return loadedLogos.get(logo.id)!;
+  };
+
+  const entries = await Promise.all(layers.map(async (layer): Promise<[string, LayerMark]> => {
+    if (layer.type === 'text') {
+      const canvas = await renderTextWatermark(layer.text, TEXT_LAYOUT_WIDTH);
+      return [layer.id, { image: await getRasterBackend().toImage(canvas), text: layer.text }];
+    }
+
+    const { image, vector } = await loadLogo(logos.find(l => l.id === layer.logoId)!);
+    if (!layer.adaptive) return [layer.id, { image, vectors: vector && { image: vector } }];
+
+    // Uploaded variants win; otherwise generate white/black versions of the logo
+    const variant = async (id: string | null, color: string): Promise<{ image: RasterImage; vector?: VectorMark }> => {
+      const logo = logos.find(l => l.id === id);
+      if (logo) return loadLogo(logo);
+      return { image: await createMonochromeMark(image, color), vector: vector && { ...vector, color } };
+    };
+    const [light, dark] = await Promise.all([variant(layer.lightLogoId, '#ffffff'), variant(layer.darkLogoId, '#000000')]);
+    const vectors = vector || light.vector || dark.vector
+      ? { image: vector, light: light.vector, dark: dark.vector }
+      : undefined;
+    return [layer.id, { image, light: light.image, dark: dark.image, vectors }];
+  }));
+
+  const { frame } = settings;
+  const captionLogo = logos.find(l => l.id === frame.caption.logoId) ?? logos[0];
+  if (frame.enabled && frame.caption.position !== 'none' && frame.caption.showLogo && captionLogo) {
+    const { image, vector } = await loadLogo(captionLogo);
+    entries.push([CAPTION_LOGO_MARK, { image, vectors: vector && { image: vector } }]);
+  }
+
+  return new Map(entries);
+};
+
+// Photos brighter than this (mean luminance under the mark) get the dark variant
+const BRIGHT_BACKGROUND_LUMINANCE = 128;
+
+const pickLogoVariant = (mark: LayerMark, variant: LogoVariant): MarkVariant => {
+  if (variant === 'light' && mark.light) return 'light';
+  if (variant === 'dark' && mark.dark) return 'dark';
+  return 'image';
+};
+
+// Vector and text marks rendered for recent mark sizes. Photos of one batch
+// mostly share a size, so this keeps each worker from rasterizing the same
+// SVG or text per photo.
+const MAX_CACHED_SIZES = 4;
+const sizeCache = new WeakMap<object, Map<string, Promise<RasterImage>>>();
+
+const rasterizeAtSize = (source: object, width: number, height: number, render: () => Promise<RasterImage>): Promise<RasterImage> => {
+  const key = `${Math.round(width)}x${Math.round(height)}`;
+  const sizes = sizeCache.get(source) ?? new Map<string, Promise<RasterImage>>();
+  sizeCache.set(source, sizes);
+
+  let image = sizes.get(key);
+  if (!image) {
+    image = render();
+    image.catch(() => sizes.delete(key));
+    sizes.set(key, image);
+    if (sizes.size > MAX_CACHED_SIZES) sizes.delete(sizes.keys().next().value!);
+  }
+  return image;
+};
+
+const rasterizeVectorMark = (vector: VectorMark, width: number, height: number): Promise<RasterImage> =>
+  rasterizeAtSize(vector, width, height, () => rasterizeSvgLogo(vector.svg, width, height)
+    .then(raster => vector.processing ? createProcessedMark(raster, vector.processing) : raster)
+    .then(raster => vector.color ? createMonochromeMark(raster, vector.color) : raster));
+
+// Renders a text layer (see renderTextWatermark for the width). Text needs the
+// document's web fonts, so render workers swap in one that asks the main thread.
+let textMarkRenderer = async (text: TextWatermarkSettings, targetWidth: number): Promise<RasterImage> =>
+  getRasterBackend().toImage(await renderTextWatermark(text, targetWidth));
+
+export const setTextMarkRenderer = (renderer: typeof textMarkRenderer) => {
+  textMarkRenderer = renderer;
+};
+
+const MIN_SEARCH_QUALITY = 10;
+
+// Picks the encoder quality. In 'target-size' mode this binary searches for the
+// highest quality (up to the configured one) whose final file fits the limit.
+const encodeWithinLimit = async (
+  encode: (quality: number | null) => Promise<Blob>,
   settings: WatermarkSettings
-): Promise<string> => {
+): Promise<{ blob: Blob; quality: number | null; exceedsTarget: boolean }> => {
+  if (settings.outputFormat === 'image/png') {
+    return { blob: await encode(null), quality: null, exceedsTarget: false };
+  }
+
+  const maxQuality = Math.round(settings.quality);
+  const first = await encode(maxQuality);
+  const limit = settings.maxFileSizeKb * 1024;
+  if (settings.qualityMode !== 'target-size' || first.size <= limit) {
+    return { blob: first, quality: maxQuality, exceedsTarget: false };
+  }
+
+  let best: { blob: Blob; quality: number } | null = null;
+  let smallest = { blob: first, quality: maxQuality };
+  let low = MIN_SEARCH_QUALITY;
+  let high = maxQuality - 1;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const blob = await encode(quality);
+    if (blob.size <= limit) {
+      best = { blob, quality };
+      low = quality + 1;
+    } else {
+      if (blob.size < smallest.blob.size) smallest = { blob, quality };
+      high = quality - 1;
+    }
+  }
+
+  return best
+    ? { ...best, exceedsTarget: false }
+    : { ...smallest, exceedsTarget: true };
+};
+
+// Renders one image with its watermark layers. Uses only the raster backend,
+// so it can run inside a Web Worker or from the CLI.
+export const renderWatermarkedImage = async (
+  imageFile: File,
+  settings: WatermarkSettings,
+  marks: LayerMarks,
+  overrides: ImageOverrides = {},
+  captionContext: CaptionContext = { index: 1, total: 1, date: new Date() }
+): Promise<RenderOutput> => {
+  // Skipped photos are exported resized and enhanced, without any layers
+  const layers = overrides.skipWatermark ? [] : settings.layers.filter(layer => layer.visible && marks.has(layer.id));
+  const { frame } = settings;
+  if (layers.length === 0 && !frame.enabled && !overrides.skipWatermark) {
+      throw new Error('Nothing to apply. Add a logo or text layer, or turn on the frame.');
+  }
+
+  const jpeg = parseJpeg(new Uint8Array(await imageFile.slice(0, JPEG_HEADER_BYTES).arrayBuffer()));
+  const raster = getRasterBackend();
+  let img = await decodeImage(imageFile, imageFile.name);
+
   try {
-    // Parallel file reading with specific error context
-    const [imageSrc, logoSrc] = await Promise.all([
-      readFileAsDataURL(imageFile).catch(e => { throw new Error(`Unable to read source image: ${e.message}`); }),
-      readFileAsDataURL(logoFile).catch(e => { throw new Error(`Unable to read logo file: ${e.message}`); }),
-    ]);
-
-    // Parallel image loading with specific error context
-    const [img, logo] = await Promise.all([
-      loadImage(imageSrc, imageFile.name),
-      loadImage(logoSrc, logoFile.name),
-    ]);
+    img = await ensureUpright(img, jpeg);
 
     // Validate image dimensions to prevent browser crashes
     const MAX_DIMENSION = 16384; // Common safe limit for canvas
@@ -50,104 +496,196 @@ export const applyWatermarkToImage = async (
         throw new Error(`Image "${imageFile.name}" has invalid dimensions.`);
     }
 
-    const canvas = document.createElement('canvas');
+    // Size the canvas for the requested output; layers are then laid out on the final size
+    const layout = computeOutputLayout(img.width, img.height, settings.resize, frame);
+    const canvas = raster.createCanvas(layout.width, layout.height);
     const ctx = canvas.getContext('2d');
 
     if (!ctx) throw new Error('System memory low. Could not create drawing context.');
 
-    // Set canvas dimensions to match original image
-    canvas.width = img.width;
-    canvas.height = img.height;
-
-    // Apply image enhancements (Brightness, Contrast, Saturation)
-    if (settings.brightness !== 100 || settings.contrast !== 100 || settings.saturation !== 100) {
-        ctx.filter = `brightness(${settings.brightness}%) contrast(${settings.contrast}%) saturate(${settings.saturation}%)`;
+    const { area } = layout;
+    if (frame.enabled) {
+        ctx.fillStyle = frame.borderColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
     }
+    if (layout.padded) {
+        ctx.fillStyle = settings.resize.background;
+        ctx.fillRect(area.x, area.y, area.width, area.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+
+    // Brightness, contrast and saturation are applied while drawing
+    const filter = getEnhancementFilter(settings);
+    if (filter) ctx.filter = filter;
 
     // Draw original image with filters
-    ctx.drawImage(img, 0, 0);
+    const { source, target } = layout;
+    ctx.drawImage(img, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
 
     // Reset filter so the watermark itself is not affected by image enhancements
     ctx.filter = 'none';
 
-    // Configure watermark
-    const logoWidth = (img.width * settings.scale) / 100;
-    const aspectRatio = logo.height / logo.width;
-    const logoHeight = logoWidth * aspectRatio;
+    // The rest works on the resized pixels of the photo only
+    if (hasPixelAdjustments(settings)) await applyPixelAdjustments(canvas, target, settings);
+    const histogram = measureHistogram(canvas, target);
 
-    ctx.globalAlpha = settings.opacity / 100;
-
-    // Configure Shadow if enabled
-    if (settings.shadow) {
-        const shadowBase = Math.max(img.width, img.height);
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
-        ctx.shadowBlur = shadowBase * 0.01; // 1% of size
-        ctx.shadowOffsetX = shadowBase * 0.003; // 0.3% of size
-        ctx.shadowOffsetY = shadowBase * 0.003;
-    } else {
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
+    if (layout.caption) {
+        const captionLogo = marks.get(CAPTION_LOGO_MARK);
+        await drawCaption(ctx, layout.caption, frame.caption, captionContext, captionLogo ? (height) => {
+            const vector = captionLogo.vectors?.image;
+            const source = vector?.svg ?? captionLogo.image;
+            return vector
+                ? rasterizeVectorMark(vector, height * (source.width / source.height), height)
+                : Promise.resolve(captionLogo.image);
+        } : null);
     }
 
-    const marginX = (img.width * settings.margin) / 100;
-    const marginY = (img.height * settings.margin) / 100;
+    // Auto placement and adaptive logos are judged against the photo itself, before any marks
+    const needsAnalysis = layers.some(layer => layer.position === 'auto' || marks.get(layer.id)!.light);
+    const analysis = needsAnalysis ? analyzeCanvas(canvas) : null;
+    const takenAnchors = new Set<AnchorPosition>();
+    let logoVariant: LogoVariant | null = null;
 
-    if (settings.position === 'tiled') {
-        const gap = logoWidth * 1.5; // spacing between tiles
-        for (let x = 0; x < img.width; x += gap) {
-            for (let y = 0; y < img.height; y += (gap * aspectRatio)) {
-                ctx.drawImage(logo, x, y, logoWidth, logoHeight);
-            }
+    // Layers are laid out on the photo area, so a frame never shifts or resizes them
+    const originOf = (layer: WatermarkLayer, position: WatermarkLayer['position'], markWidth: number, markHeight: number) => {
+        const origin = getLayerOrigin({ ...layer, position }, area.width, area.height, markWidth, markHeight);
+        return { x: area.x + origin.x, y: area.y + origin.y };
+    };
+
+    // Composite each layer in order, bottom to top
+    const placements: LayerPlacement[] = [];
+    for (const layer of layers) {
+        const layerMark = marks.get(layer.id)!;
+        const markWidth = (area.width * layer.scale) / 100;
+        // SVGs give the exact aspect ratio; their fallback bitmaps are rounded to whole pixels
+        const heightFor = (variant: MarkVariant) => {
+            const svg = layerMark.vectors?.[variant]?.svg;
+            const source = svg ?? layerMark[variant]!;
+            return markWidth * (source.height / source.width);
+        };
+        let variant: MarkVariant = 'image';
+        let markHeight = heightFor(variant);
+
+        // Resolve the anchor first, so the variant is chosen for the area the mark will cover
+        let position = layer.position;
+        if (position === 'auto' && analysis) {
+            const anchor = pickCalmestAnchor(analysis, layer.autoAnchors, takenAnchors, (candidate) => ({
+                ...originOf(layer, candidate, markWidth, markHeight),
+                width: markWidth,
+                height: markHeight,
+            }));
+            takenAnchors.add(anchor);
+            position = anchor;
         }
-    } else {
-        let x = 0;
-        let y = 0;
-
-        switch (settings.position) {
-          case 'top-left':
-            x = marginX;
-            y = marginY;
-            break;
-          case 'top-right':
-            x = canvas.width - logoWidth - marginX;
-            y = marginY;
-            break;
-          case 'bottom-left':
-            x = marginX;
-            y = canvas.height - logoHeight - marginY;
-            break;
-          case 'bottom-right':
-            x = canvas.width - logoWidth - marginX;
-            y = canvas.height - logoHeight - marginY;
-            break;
-          case 'center':
-            x = (canvas.width - logoWidth) / 2;
-            y = (canvas.height - logoHeight) / 2;
-            break;
+
+        if (layerMark.light && analysis) {
+            const covered: Rect = position === 'tiled'
+                ? area
+                : { ...originOf(layer, position, markWidth, markHeight), width: markWidth, height: markHeight };
+            const chosen = overrides.logoVariant
+                ?? (analysis.luminance(covered) > BRIGHT_BACKGROUND_LUMINANCE ? 'dark' : 'light');
+            logoVariant ??= chosen;
+            variant = pickLogoVariant(layerMark, chosen);
+            markHeight = heightFor(variant);
+        }
+
+        // SVG logos and text are drawn from a bitmap rendered at exactly the mark's size
+        const vector = layerMark.vectors?.[variant];
+        const { text } = layerMark;
+        // The layout bitmap includes the stroke, so it tells how wide the text itself must be
+        const textWidth = (TEXT_LAYOUT_WIDTH * markWidth) / layerMark.image.width;
+        const mark = vector ? await rasterizeVectorMark(vector, markWidth, markHeight)
+            : text ? await rasterizeAtSize(text, markWidth, markHeight, () => textMarkRenderer(text, textWidth))
+            : layerMark[variant]!;
+
+        // Effects are baked into the mark first, so opacity and blending apply to the layer as a whole
+        const styled: StyledMark = hasMarkEffects(layer)
+            ? await renderMarkEffects(mark, markWidth, markHeight, layer, Math.max(area.width, area.height))
+            : { image: mark, pad: 0 };
+        const { pad } = styled;
+
+        ctx.globalAlpha = layer.opacity / 100;
+        ctx.globalCompositeOperation = BLEND_OPERATIONS[layer.blendMode];
+
+        if (position === 'tiled') {
+            // Tiles cover the photo only, leaving the frame clean
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(area.x, area.y, area.width, area.height);
+            ctx.clip();
+            ctx.translate(area.x, area.y);
+            drawTiledPattern(ctx, styled.image, markWidth, markHeight, layer.tile, area.width, area.height, pad);
+            ctx.restore();
+        } else {
+            const { x, y } = originOf(layer, position, markWidth, markHeight);
+            ctx.drawImage(styled.image, x - pad, y - pad, markWidth + pad * 2, markHeight + pad * 2);
+            placements.push({ layerId: layer.id, position, auto: layer.position === 'auto', x, y, width: markWidth, height: markHeight });
         }
-        ctx.drawImage(logo, x, y, logoWidth, logoHeight);
     }
 
     // Reset styles
     ctx.globalAlpha = 1.0;
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 0;
-
-    // Return as Blob URL
-    return new Promise((resolve, reject) => {
-        canvas.toBlob((blob) => {
-            if (blob) {
-                resolve(URL.createObjectURL(blob));
-            } else {
-                reject(new Error(`Failed to process "${imageFile.name}". The resulting image might be too large/complex.`));
-            }
-        }, settings.outputFormat, 0.95);
-    });
+    ctx.globalCompositeOperation = 'source-over';
 
+    // Hide the owner ID in the finished pixels, on top of the visible marks.
+    // A size limit may push JPEG quality below what the mark survives, so the
+    // unmarked pixels are kept until the final quality is known.
+    const { invisibleMark } = settings;
+    const isJpeg = settings.outputFormat === 'image/jpeg';
+    const markable = settings.outputFormat === 'image/png' || (isJpeg && settings.quality >= MIN_MARK_JPEG_QUALITY);
+    let unmarked: ImageData | null = null;
+    if (invisibleMark.enabled && invisibleMark.ownerId.trim() && markable) {
+        if (isJpeg && settings.qualityMode === 'target-size') unmarked = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        embedInvisibleMark(ctx, canvas.width, canvas.height, invisibleMark.ownerId, invisibleMark.strength);
+    }
+
+    // Encode, then carry over the camera metadata and write the creator/copyright fields
+    const encode = async (quality: number | null) => {
+        let blob: Blob;
+        try {
+            blob = await raster.encode(canvas, settings.outputFormat, quality === null ? undefined : quality / 100);
+        } catch {
+            throw new Error(`Failed to process "${imageFile.name}". The resulting image might be too large/complex.`);
+        }
+        return embedMetadata(blob, settings, jpeg, canvas.width, canvas.height);
+    };
+
+    let encoded = await encodeWithinLimit(encode, settings);
+    if (unmarked && encoded.quality !== null && encoded.quality < MIN_MARK_JPEG_QUALITY) {
+        ctx.putImageData(unmarked, 0, 0);
+        encoded = await encodeWithinLimit(encode, settings);
+    }
+    return { ...encoded, width: canvas.width, height: canvas.height, photoArea: area, placements, logoVariant, histogram };
+  } finally {
+    raster.release(img);
+  }
+};
+
+// Levels and white balance for one photo, as the "Auto" button sets them.
+// Measured with the photo's brightness, contrast and saturation applied.
+export const getAutoAdjustments = async (imageFile: File, settings: EnhancementSettings): Promise<Partial<EnhancementSettings>> => {
+  const img = await decodeImage(imageFile, imageFile.name);
+  try {
+    const histogram = measureHistogram(img, { x: 0, y: 0, width: img.width, height: img.height }, getEnhancementFilter(settings));
+    const levels = getAutoLevels(histogram);
+    return { autoLevels: false, ...levels, ...getAutoWhiteBalance(histogram, levels) };
+  } finally {
+    getRasterBackend().release(img);
+  }
+};
+
+// Main-thread convenience used by the live preview
+export const applyWatermarkToImage = async (
+  imageFile: File,
+  settings: WatermarkSettings,
+  logos: LogoAsset[],
+  overrides: ImageOverrides = {},
+  captionContext?: CaptionContext
+): Promise<WatermarkResult> => {
+  try {
+    const marks = await prepareLayerMarks(settings, logos);
+    const output = await renderWatermarkedImage(imageFile, settings, marks, overrides, captionContext);
+    return { ...output, url: URL.createObjectURL(output.blob) };
   } catch (error) {
     console.error('Watermarking failed:', error);
     throw error;
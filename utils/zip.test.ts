@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createZipWriter, ZipSink } from './zip';
+import { crc32 } from './crc32';
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+// Writes the files to an in-memory archive and returns its bytes
+const buildArchive = async (files: { name: string; text: string; date: Date }[]) => {
+  const parts: BlobPart[] = [];
+  let closed = false;
+  const sink: ZipSink = {
+    write: async (chunk) => { parts.push(chunk as BlobPart); },
+    close: async () => { closed = true; },
+    abort: async () => { parts.length = 0; },
+  };
+  const zip = createZipWriter(sink);
+  for (const file of files) await zip.addFile(file.name, new Blob([bytesOf(file.text)]), file.date);
+  await zip.close();
+  expect(closed).toBe(true);
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+};
+
+describe('crc32', () => {
+  it.each([
+    { input: '', expected: 0 },
+    { input: '123456789', expected: 0xcbf43926 },
+    { input: 'The quick brown fox jumps over the lazy dog', expected: 0x414fa339 },
+  ])('matches the reference value for "$input"', ({ input, expected }) => {
+    expect(crc32(bytesOf(input))).toBe(expected);
+  });
+});
+
+describe('createZipWriter', () => {
+  const date = new Date(2024, 2, 15, 13, 45, 30);
+  const files = [
+    { name: 'photo-001.jpg', text: 'first image', date },
+    { name: 'café.png', text: 'second', date },
+  ];
+
+  it('writes local headers followed by the stored data', async () => {
+    const archive = await buildArchive(files);
+    const view = new DataView(archive.buffer);
+
+    let offset = 0;
+    for (const file of files) {
+      const name = bytesOf(file.name);
+      const data = bytesOf(file.text);
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint16(offset + 4, true)).toBe(20);
+      expect(view.getUint16(offset + 6, true)).toBe(0x0800);
+      expect(view.getUint16(offset + 8, true)).toBe(0);
+      expect(view.getUint16(offset + 10, true)).toBe((13 << 11) | (45 << 5) | 15);
+      expect(view.getUint16(offset + 12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(data));
+      expect(view.getUint32(offset + 18, true)).toBe(data.length);
+      expect(view.getUint32(offset + 22, true)).toBe(data.length);
+      expect(view.getUint16(offset + 26, true)).toBe(name.length);
+      expect(view.getUint16(offset + 28, true)).toBe(0);
+      expect(archive.slice(offset + 30, offset + 30 + name.length)).toEqual(name);
+      const dataStart = offset + 30 + name.length;
+      expect(archive.slice(dataStart, dataStart + data.length)).toEqual(data);
+      offset = dataStart + data.length;
+    }
+  });
+
+  it('ends with a central directory that points back at each entry', async () => {
+    const archive = await buildArchive(files);
+    const view = new DataView(archive.buffer);
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(files.length);
+    expect(view.getUint16(end + 10, true)).toBe(files.length);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart + centralSize).toBe(end);
+
+    let record = centralStart;
+    let localOffset = 0;
+    for (const file of files) {
+      const name = bytesOf(file.name);
+      const data = bytesOf(file.text);
+      expect(view.getUint32(record, true)).toBe(0x02014b50);
+      expect(view.getUint16(record + 8, true)).toBe(0x0800);
+      expect(view.getUint16(record + 10, true)).toBe(0);
+      expect(view.getUint32(record + 16, true)).toBe(crc32(data));
+      expect(view.getUint32(record + 20, true)).toBe(data.length);
+      expect(view.getUint32(record + 24, true)).toBe(data.length);
+      expect(view.getUint16(record + 28, true)).toBe(name.length);
+      expect(view.getUint32(record + 42, true)).toBe(localOffset);
+      expect(archive.slice(record + 46, record + 46 + name.length)).toEqual(name);
+      record += 46 + name.length;
+      localOffset += 30 + name.length + data.length;
+    }
+    expect(record).toBe(end);
+  });
+});
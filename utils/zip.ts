@@ -0,0 +1,155 @@
+import { triggerDownload } from './download';
+import { crc32 } from './crc32';
+
+// Minimal streaming ZIP writer. Entries are stored uncompressed: JPEG, PNG and
+// WebP data is already compressed, so deflating it again costs time for no gain.
+// Each entry is handed to the sink as soon as it is added, so only one image
+// needs to be held in memory at a time.
+
+export type ZipSink = {
+  write: (chunk: Uint8Array | Blob) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+};
+
+export interface ZipWriter {
+  addFile: (name: string, data: Blob, lastModified?: Date) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+const MAX_ZIP_SIZE = 0xffffffff; // Classic (non-ZIP64) format limit
+
+// MS-DOS date/time as used by ZIP headers
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export const createZipWriter = (sink: ZipSink): ZipWriter => {
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  const write = async (chunk: Uint8Array | Blob) => {
+    await sink.write(chunk);
+    offset += chunk instanceof Blob ? chunk.size : chunk.length;
+  };
+
+  const addFile = async (name: string, data: Blob, lastModified = new Date()) => {
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(bytes);
+    const { time, date } = toDosDateTime(lastModified);
+
+    if (offset + 30 + nameBytes.length + bytes.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB. Split the batch or download files individually.');
+    }
+
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true); // Local file header signature
+    view.setUint16(4, 20, true); // Version needed to extract
+    view.setUint16(6, 0x0800, true); // Flags: UTF-8 file name
+    view.setUint16(8, 0, true); // Method: stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, bytes.length, true); // Compressed size
+    view.setUint32(22, bytes.length, true); // Uncompressed size
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true); // Extra field length
+    header.set(nameBytes, 30);
+
+    entries.push({ name: nameBytes, crc, size: bytes.length, offset, time, date });
+    await write(header);
+    await write(data);
+  };
+
+  const close = async () => {
+    const centralStart = offset;
+
+    for (const entry of entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true); // Central directory signature
+      view.setUint16(4, 20, true); // Version made by
+      view.setUint16(6, 20, true); // Version needed to extract
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.time, true);
+      view.setUint16(14, entry.date, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      // Extra, comment, disk number, internal and external attributes stay zero
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+      await write(record);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true); // End of central directory signature
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, offset - centralStart, true);
+    view.setUint32(16, centralStart, true);
+    await write(end);
+
+    await sink.close();
+  };
+
+  return { addFile, close, abort: sink.abort };
+};
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Streams straight to disk where the File System Access API is available,
+// otherwise collects Blob parts (which the browser can page out) and triggers
+// a single download at the end. Returns null if the user cancels the save dialog.
+export const openZipSink = async (fileName: string): Promise<ZipSink | null> => {
+  const showSaveFilePicker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  if (showSaveFilePicker) {
+    try {
+      const handle = await showSaveFilePicker.call(window, {
+        suggestedName: fileName,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+      });
+      const writable = await handle.createWritable();
+      return {
+        write: (chunk) => writable.write(chunk as FileSystemWriteChunkType),
+        close: () => writable.close(),
+        abort: () => writable.abort(),
+      };
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return null;
+      console.error('Save dialog unavailable, falling back to a regular download', e);
+    }
+  }
+
+  const parts: BlobPart[] = [];
+  return {
+    write: async (chunk) => { parts.push(chunk as BlobPart); },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: 'application/zip' }));
+      triggerDownload(url, fileName);
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    },
+    abort: async () => { parts.length = 0; },
+  };
+};